@@ -0,0 +1,141 @@
+import express from "express";
+
+import type { ClientRateLimitInfo, PolicyRateLimiter, RateLimitOverride } from "../middleware/rate-limit-policy.js";
+import type { AsyncQueue, DeadLetter } from "../queue/async-queue.js";
+import type { DeadLetterParams, RateLimitClientParams, RateLimitOverrideBody, TopConsumersQuery } from "../schemas/admin-schemas.js";
+
+import { NotFoundError } from "../errors/index.js";
+import { requireAdmin } from "../middleware/admin-auth.js";
+import { validate } from "../middleware/validate.js";
+import {
+  deadLetterParamsSchema,
+  rateLimitClientParamsSchema,
+  rateLimitOverrideBodySchema,
+  topConsumersQuerySchema,
+} from "../schemas/admin-schemas.js";
+
+/**
+ * Admin router options
+ */
+export type AdminRouterOptions = {
+  token?: string; // Bearer token for every admin route; the API is disabled without one
+  rateLimiter: PolicyRateLimiter;
+  queue: Pick<AsyncQueue<unknown>, "getDeadLetters" | "getDeadLetter" | "replayDeadLetter" | "purgeDeadLetters">; // Its dead letters are managed here
+};
+
+/**
+ * Create the admin router
+ */
+export function createAdminRouter(options: AdminRouterOptions) {
+  const { rateLimiter, queue } = options;
+  const router = express.Router();
+
+  router.use(requireAdmin(options.token));
+
+  // GET /admin/rate-limits - Rate limiter overview
+  router.get<object, { trackedKeys: number; overrides: number }>("/rate-limits", async (req, res) => {
+    res.json({
+      trackedKeys: await rateLimiter.getStoreSize(),
+      overrides: (await rateLimiter.listOverrides()).length,
+    });
+  });
+
+  // GET /admin/rate-limits/clients - Clients closest to their limits
+  router.get<object, { clients: ClientRateLimitInfo[] }, unknown, TopConsumersQuery>(
+    "/rate-limits/clients",
+    validate({ query: topConsumersQuerySchema }),
+    async (req, res) => {
+      res.json({ clients: await rateLimiter.topConsumers(req.query.limit) });
+    },
+  );
+
+  // GET /admin/rate-limits/clients/:client - A client's current windows
+  router.get<RateLimitClientParams, ClientRateLimitInfo>(
+    "/rate-limits/clients/:client",
+    validate({ params: rateLimitClientParamsSchema }),
+    async (req, res) => {
+      res.json(await rateLimiter.inspect(req.params.client));
+    },
+  );
+
+  // DELETE /admin/rate-limits/clients/:client - Reset a client's windows
+  router.delete<RateLimitClientParams>(
+    "/rate-limits/clients/:client",
+    validate({ params: rateLimitClientParamsSchema }),
+    async (req, res) => {
+      await rateLimiter.reset(req.params.client);
+      res.status(204).end();
+    },
+  );
+
+  // GET /admin/rate-limits/overrides - Active bans and allowlist entries
+  router.get<object, { overrides: RateLimitOverride[] }>("/rate-limits/overrides", async (req, res) => {
+    res.json({ overrides: await rateLimiter.listOverrides() });
+  });
+
+  // POST /admin/rate-limits/overrides - Temporarily ban or allowlist an IP or API key
+  router.post<object, RateLimitOverride, RateLimitOverrideBody>(
+    "/rate-limits/overrides",
+    validate({ body: rateLimitOverrideBodySchema }),
+    async (req, res) => {
+      const { target, action, ttlSeconds, reason } = req.body;
+      const client = rateLimiter.clientId(target);
+      res.status(201).json(await rateLimiter.setOverride(client, action, ttlSeconds * 1000, reason));
+    },
+  );
+
+  // DELETE /admin/rate-limits/overrides/:client - Lift a ban or allowlisting
+  router.delete<RateLimitClientParams>(
+    "/rate-limits/overrides/:client",
+    validate({ params: rateLimitClientParamsSchema }),
+    async (req, res) => {
+      if (!await rateLimiter.removeOverride(req.params.client)) {
+        throw new NotFoundError(`No override for client ${req.params.client}.`);
+      }
+      res.status(204).end();
+    },
+  );
+
+  // GET /admin/dead-letters - Failed database jobs, newest first
+  router.get<object, { deadLetters: DeadLetter[] }>("/dead-letters", (req, res) => {
+    res.json({ deadLetters: queue.getDeadLetters() });
+  });
+
+  // POST /admin/dead-letters/:id/replay - Run a failed job again. It runs in
+  // the background; if it fails again it comes back under a new ID.
+  router.post<DeadLetterParams, { replayed: DeadLetter }>(
+    "/dead-letters/:id/replay",
+    validate({ params: deadLetterParamsSchema }),
+    (req, res) => {
+      const letter = queue.getDeadLetter(req.params.id);
+      if (!letter) {
+        throw new NotFoundError(`No dead letter ${req.params.id}.`);
+      }
+
+      // The outcome shows up in the queue stats and dead letters
+      queue.replayDeadLetter(letter.id)?.catch(() => {});
+      res.status(202).json({ replayed: letter });
+    },
+  );
+
+  // DELETE /admin/dead-letters/:id - Drop a failed job
+  router.delete<DeadLetterParams>(
+    "/dead-letters/:id",
+    validate({ params: deadLetterParamsSchema }),
+    (req, res) => {
+      if (queue.purgeDeadLetters(req.params.id) === 0) {
+        throw new NotFoundError(`No dead letter ${req.params.id}.`);
+      }
+      res.status(204).end();
+    },
+  );
+
+  // DELETE /admin/dead-letters - Drop every failed job
+  router.delete<object, { purged: number }>("/dead-letters", (req, res) => {
+    res.json({ purged: queue.purgeDeadLetters() });
+  });
+
+  return router;
+}
+
+export default createAdminRouter;
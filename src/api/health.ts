@@ -0,0 +1,47 @@
+import express from "express";
+
+import type { HealthChecks, HealthReport } from "../health.js";
+import type { Lifecycle } from "../lifecycle.js";
+
+/**
+ * Health router options
+ */
+export type HealthRouterOptions = {
+  lifecycle: Lifecycle;
+  readiness: HealthChecks; // Checks that decide whether the instance gets traffic
+};
+
+/**
+ * Create the health router - probes for orchestrators and load balancers.
+ * Probes are not rate limited.
+ */
+export function createHealthRouter(options: HealthRouterOptions) {
+  const { lifecycle, readiness } = options;
+  const router = express.Router();
+
+  // The instance stops taking traffic as soon as shutdown starts
+  readiness.register("shutdown", () => ({
+    status: lifecycle.isReady() ? "pass" : "fail",
+    state: lifecycle.getState(),
+  }));
+
+  // GET /healthz - Liveness: the process is up and its event loop responds.
+  // Dependencies are left out, so an outage does not get the instance restarted.
+  router.get<object, { status: "pass"; uptimeSeconds: number; timestamp: string }>("/healthz", (req, res) => {
+    res.set("Cache-Control", "no-store").json({
+      status: "pass",
+      uptimeSeconds: Math.round(process.uptime()),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // GET /readyz - Readiness: every check with its details; 503 when any fails
+  router.get<object, HealthReport>("/readyz", async (req, res) => {
+    const report = await readiness.run();
+    res.status(report.status === "fail" ? 503 : 200).set("Cache-Control", "no-store").json(report);
+  });
+
+  return router;
+}
+
+export default createHealthRouter;
@@ -1,9 +1,30 @@
 import express from "express";
 
-import users from "./users.js";
+import type { AdminRouterOptions } from "./admin.js";
+import type { HealthRouterOptions } from "./health.js";
+import type { UsersRouterOptions } from "./users.js";
 
-const router = express.Router();
+import { createAdminRouter } from "./admin.js";
+import { createHealthRouter } from "./health.js";
+import { createUsersRouter } from "./users.js";
 
-router.use("/users", users);
+/**
+ * API router options
+ */
+export type ApiRouterOptions = {
+  users: UsersRouterOptions;
+  admin: AdminRouterOptions;
+  health: HealthRouterOptions;
+};
 
-export default router;
+export function createApiRouter(options: ApiRouterOptions) {
+  const router = express.Router();
+
+  router.use(createHealthRouter(options.health));
+  router.use("/users", createUsersRouter(options.users));
+  router.use("/admin", createAdminRouter(options.admin));
+
+  return router;
+}
+
+export default createApiRouter;
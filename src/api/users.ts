@@ -1,185 +1,739 @@
-import express from "express";
+import type { Request, Response } from "express";
 
-import type { CacheStats } from "../cache/lru-cache.js";
-import type { QueueStats } from "../queue/async-queue.js";
-import type ErrorResponse from "../interfaces/error-response.js";
+import express from "express";
 
-import LRUCache from "../cache/lru-cache.js";
-import { createQueue } from "../queue/async-queue.js";
-import { createRateLimiter } from "../middleware/rate-limiter.js";
+import type { CacheStats, CacheStoreFactory } from "../cache/index.js";
+import type { CircuitBreakerConfig } from "../circuit-breaker/circuit-breaker.js";
+import type { HealthChecks } from "../health.js";
+import type UserBatchResponse from "../interfaces/user-batch-response.js";
+import type UserListResponse from "../interfaces/user-list-response.js";
+import type UserWarmResponse from "../interfaces/user-warm-response.js";
+import type { Lifecycle } from "../lifecycle.js";
+import type { RateLimitAlgorithmName } from "../middleware/rate-limit-algorithms.js";
+import type { KeyRequest } from "../middleware/rate-limit-keys.js";
+import type { RateLimitPolicy } from "../middleware/rate-limit-policy.js";
+import type { RateLimitStore } from "../middleware/rate-limit-store.js";
+import type { AsyncQueue, EnqueueOptions, QueueConfig, QueueStats } from "../queue/async-queue.js";
+import type { UserListPage, UserRepository } from "../repositories/index.js";
+import type { User, UserBatchBody, UserBatchQuery, UserInput, UserListQuery, UserParams, UserWarmBody } from "../schemas/user-schemas.js";
 
-const router = express.Router();
+import { loadCacheSnapshot, saveCacheSnapshot } from "../cache/cache-snapshot.js";
+import { createCacheStoreFactory, withFailOpen } from "../cache/index.js";
+import { LRUCache } from "../cache/lru-cache.js";
+import { CircuitBreaker, CircuitOpenError, CircuitTimeoutError } from "../circuit-breaker/circuit-breaker.js";
+import { HttpError, NotFoundError, ServiceUnavailableError, UpstreamError } from "../errors/index.js";
+import { requireAdmin } from "../middleware/admin-auth.js";
+import { PolicyRateLimiter } from "../middleware/rate-limit-policy.js";
+import { validate } from "../middleware/validate.js";
+import { createQueue, QueueFullError, QueueTimeoutError } from "../queue/async-queue.js";
+import { withCircuitBreaker } from "../repositories/index.js";
+import {
+  userBatchBodySchema,
+  userBatchQuerySchema,
+  userInputSchema,
+  userListQuerySchema,
+  userParamsSchema,
+  userPatchSchema,
+  userWarmBodySchema,
+} from "../schemas/user-schemas.js";
 
-// Rate limiter: 10 requests/minute, 5 requests/10 seconds burst
-const rateLimiter = createRateLimiter(
-  60 * 1000, // 1 minute window
-  10, // 10 requests per minute
-  10 * 1000, // 10 second burst window
-  5, // 5 requests per burst window
-);
+/**
+ * Rate limiting for the users router
+ */
+export type UsersRateLimitOptions = {
+  algorithm?: RateLimitAlgorithmName;
+  store?: RateLimitStore;
+  legacyHeaders?: boolean; // Also send the X-RateLimit-* headers (default true)
+  policy?: Partial<RateLimitPolicy>; // Replaces fields of the default policy; tiers are merged by name
+};
 
-// Apply rate limiter to all routes
-router.use(rateLimiter);
+/**
+ * What the users router's database queue loads
+ */
+export type UsersQueueResult = User | User[] | UserListPage | null;
 
-// User interface
-type User = {
-  id: number;
-  name: string;
-  email: string;
+/**
+ * Users router options
+ */
+export type UsersRouterOptions = {
+  repository: UserRepository;
+  queue?: Partial<QueueConfig>; // Overrides for the database queue
+  databaseQueue?: AsyncQueue<UsersQueueResult>; // Defaults to createUsersQueue(queue)
+  circuitBreaker?: Partial<CircuitBreakerConfig>; // Overrides for the breaker in front of the repository
+  cacheStore?: CacheStoreFactory; // Defaults to the backend selected by CACHE_STORE
+  cacheSnapshotFile?: string; // Restore the user cache from here and save it on shutdown
+  rateLimiter?: PolicyRateLimiter; // Defaults to createUsersRateLimiter()
+  adminToken?: string; // Bearer token for cache warming, which is refused without one
+  lifecycle?: Lifecycle;
+  readiness?: HealthChecks; // Receives the router's readiness checks
 };
 
-// Mock user data
-const mockUsers: Record<number, User> = {
-  1: { id: 1, name: "John Doe", email: "john@example.com" },
-  2: { id: 2, name: "Jane Smith", email: "jane@example.com" },
-  3: { id: 3, name: "Alice Johnson", email: "alice@example.com" },
-};
+// Cache key for a page of users - the parsed query has a fixed key order
+function listCacheKey(query: UserListQuery): string {
+  return `users:list:${JSON.stringify(query)}`;
+}
 
-// LRU Cache with 100 capacity and 60 second TTL
-const userCache = new LRUCache<User>(100, 60);
+// Queue key for a batched lookup of the given (sorted) IDs
+function batchQueueKey(ids: number[]): string {
+  return `users:batch:${ids.join(",")}`;
+}
+
+// Whether a queue key is a batched lookup that includes the user
+function batchQueueKeyIncludes(key: string, userId: number): boolean {
+  return key.startsWith("users:batch:") && key.slice("users:batch:".length).split(",").includes(String(userId));
+}
 
-// Response time tracking
-const responseTimeTracker = {
-  times: [] as number[],
-  maxSamples: 100, // Keep last 100 response times
-  
-  record(time: number) {
-    this.times.push(time);
-    if (this.times.length > this.maxSamples) {
-      this.times.shift();
+// Build the Link header (RFC 8288) for a page of users. Offset pagination gets
+// first/prev/next/last; cursor pagination can only move forward.
+function buildLinkHeader(req: Pick<Request, "originalUrl" | "protocol" | "get">, query: UserListQuery, page: UserListPage): string {
+  const link = (rel: string, params: Record<string, string | undefined>) => {
+    const url = new URL(req.originalUrl, `${req.protocol}://${req.get("host")}`);
+    for (const [name, value] of Object.entries(params)) {
+      if (value === undefined) {
+        url.searchParams.delete(name);
+      }
+      else {
+        url.searchParams.set(name, value);
+      }
     }
-  },
-  
-  getAverage(): number {
-    if (this.times.length === 0) return 0;
-    const sum = this.times.reduce((a, b) => a + b, 0);
-    return Math.round(sum / this.times.length);
-  },
-  
-  reset() {
-    this.times = [];
+    return `<${url.href}>; rel="${rel}"`;
+  };
+
+  const links: string[] = [];
+  if (query.cursor) {
+    links.push(link("first", { cursor: undefined }));
+    if (page.nextCursor) {
+      links.push(link("next", { cursor: page.nextCursor }));
+    }
+    return links.join(", ");
+  }
+
+  const { limit } = query;
+  const { offset, total } = page;
+  links.push(link("first", { offset: "0" }));
+  if (offset > 0) {
+    links.push(link("prev", { offset: String(Math.max(0, offset - limit)) }));
   }
+  if (offset + limit < total) {
+    links.push(link("next", { offset: String(offset + limit) }));
+  }
+  links.push(link("last", { offset: String(Math.max(0, Math.floor((total - 1) / limit) * limit)) }));
+  return links.join(", ");
+}
+
+// Default rate limit policy. Anonymous clients get 10 requests/minute with
+// a burst of 5 per 10 seconds; API keys unlock higher tiers and the
+// "internal" tier (health checkers and other trusted services) is not
+// limited. Monitoring, cache administration and writes each have a budget
+// of their own, and a batch lookup counts as two requests. Clients are told
+// apart by API key, else by address (IPv6 grouped by /64).
+const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  tiers: {
+    anonymous: { windowMs: 60 * 1000, maxRequests: 10, burstWindowMs: 10 * 1000, burstMaxRequests: 5 },
+    standard: { windowMs: 60 * 1000, maxRequests: 100, burstWindowMs: 10 * 1000, burstMaxRequests: 20 },
+    premium: { windowMs: 60 * 1000, maxRequests: 1000, burstWindowMs: 10 * 1000, burstMaxRequests: 100 },
+    internal: null,
+  },
+  rules: [
+    {
+      name: "monitoring",
+      methods: ["GET"],
+      paths: ["/cache/stats", "/queue/stats", "/cache-status"],
+      limits: { anonymous: { windowMs: 60 * 1000, maxRequests: 30, burstWindowMs: 10 * 1000, burstMaxRequests: 10 } },
+    },
+    {
+      name: "cache-admin",
+      methods: ["POST", "DELETE"],
+      paths: ["/cache/warm", "/cache"],
+      limits: { anonymous: { windowMs: 60 * 1000, maxRequests: 5, burstWindowMs: 10 * 1000, burstMaxRequests: 2 } },
+    },
+    {
+      name: "batch",
+      methods: ["GET"],
+      paths: ["/"],
+      when: req => req.query.ids !== undefined,
+      cost: 2,
+    },
+    { name: "batch", methods: ["POST"], paths: ["/batch"], cost: 2 },
+    {
+      name: "writes",
+      methods: ["POST", "PUT", "PATCH", "DELETE"],
+      limits: { anonymous: { windowMs: 60 * 1000, maxRequests: 10, burstWindowMs: 10 * 1000, burstMaxRequests: 5 } },
+    },
+  ],
+  apiKeys: {},
+  apiKeyHeader: "X-API-Key",
+  ipv6Subnet: 64,
 };
 
-// Async Queue with 5 concurrent requests and deduplication
-const databaseQueue = createQueue<User | null>({
-  concurrency: 5,
-  maxRetries: 3,
-  retryDelay: 1000,
-  deduplication: true,
-});
-
-// Simulate database call with 200ms delay
-function simulateDatabaseCall(userId: number): Promise<User | null> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      const user = mockUsers[userId];
-      resolve(user || null);
-    }, 200);
+// How long a "user does not exist" result stays cached. Kept short so that
+// probing random IDs cannot drive load onto the data source, while still
+// letting users created elsewhere show up quickly.
+const NOT_FOUND_TTL_SECONDS = 10;
+
+// Client errors from the data source (a 404-like or validation failure) say
+// nothing about its health and will not go away by trying again; anything
+// else may be transient
+function isDataSourceFailure(error: Error): boolean {
+  return !(error instanceof HttpError && error.status < 500);
+}
+
+// Retrying while the circuit breaker is open would only fail again
+function isRetryable(error: Error): boolean {
+  return isDataSourceFailure(error) && !(error instanceof CircuitOpenError);
+}
+
+// Jobs that never reached the data source - every attempt was turned away by
+// the open circuit breaker - would only crowd real failures out of the
+// dead letters
+function reachedDataSource(errors: Error[]): boolean {
+  return errors.some(error => !(error instanceof CircuitOpenError));
+}
+
+// Aborted when the client disconnects before its response is complete, so
+// queued reads nobody waits for any more are dropped
+function responseSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
   });
+  return controller.signal;
 }
 
-// GET /users/cache/stats - Get cache statistics
-router.get<object, CacheStats>("/cache/stats", (req, res) => {
-  const stats = userCache.getStats();
-  res.json(stats);
-});
-
-// GET /users/queue/stats - Get queue statistics
-router.get<object, QueueStats>("/queue/stats", (req, res) => {
-  const stats = databaseQueue.getStats();
-  res.json(stats);
-});
-
-// DELETE /users/cache - Clear the entire cache
-router.delete("/cache", (req, res) => {
-  userCache.clear();
-  responseTimeTracker.reset();
-  res.json({
-    message: "Cache cleared successfully",
-    timestamp: new Date().toISOString()
-  });
-});
-
-// GET /users/cache-status - Get comprehensive cache status
-router.get("/cache-status", (req, res) => {
-  const cacheStats = userCache.getStats();
-  const queueStats = databaseQueue.getStats();
-  
-  res.json({
-    cache: {
-      size: cacheStats.size,
-      capacity: cacheStats.capacity,
-      hits: cacheStats.hits,
-      misses: cacheStats.misses,
-      evictions: cacheStats.evictions,
-      expirations: cacheStats.expirations,
-      hitRate: cacheStats.hits + cacheStats.misses > 0 
-        ? ((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100).toFixed(2) + "%"
-        : "0%"
+// Surface data source failures (after any queue retries) as 502s, and a
+// full database queue or an open circuit breaker as a 503
+async function fromDataSource<R>(operation: Promise<R>): Promise<R> {
+  try {
+    return await operation;
+  }
+  catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    if (error instanceof QueueFullError) {
+      throw new ServiceUnavailableError("Too many pending user data requests. Try again shortly.", {
+        cause: error,
+        headers: { "Retry-After": "1" },
+      });
+    }
+    if (error instanceof CircuitOpenError) {
+      throw new ServiceUnavailableError("The user data source is unavailable. Try again later.", {
+        cause: error,
+        headers: { "Retry-After": String(Math.max(1, Math.ceil(error.retryAfter / 1000))) },
+      });
+    }
+    if (error instanceof QueueTimeoutError || error instanceof CircuitTimeoutError) {
+      throw new UpstreamError("User data source request timed out.", { cause: error });
+    }
+    throw new UpstreamError("User data source request failed.", { cause: error });
+  }
+}
+
+/**
+ * Create the users router's rate limiter: the default policy with any overrides
+ */
+export function createUsersRateLimiter(options: UsersRateLimitOptions = {}): PolicyRateLimiter {
+  const { policy, ...rateLimitOptions } = options;
+  return new PolicyRateLimiter({
+    ...DEFAULT_RATE_LIMIT_POLICY,
+    ...policy,
+    tiers: { ...DEFAULT_RATE_LIMIT_POLICY.tiers, ...policy?.tiers },
+  }, rateLimitOptions);
+}
+
+/**
+ * Create the users router's database queue
+ *
+ * 5 concurrent requests with deduplication. At most 100 jobs wait; beyond
+ * that requests get a 503 rather than an ever-growing wait. Single-user
+ * lookups go first, cache warming last, and within each priority the clients
+ * (as the rate limiter tells them apart) take turns. An attempt taking over
+ * 10 seconds is abandoned and retried; retries back off from 1 second up to
+ * 10 seconds. The last 100 failed jobs are kept as dead letters, except
+ * those the circuit breaker turned away without calling the data source.
+ */
+export function createUsersQueue(config: Partial<QueueConfig> = {}): AsyncQueue<UsersQueueResult> {
+  return createQueue<UsersQueueResult>({
+    concurrency: 5,
+    maxRetries: 3,
+    retryDelay: 1000,
+    maxRetryDelay: 10_000,
+    shouldRetry: isRetryable,
+    shouldDeadLetter: reachedDataSource,
+    deduplication: true,
+    maxPending: 100,
+    timeout: 10_000,
+    deadLetterLimit: 100,
+    ...config,
+  });
+}
+
+/**
+ * Create the users router on top of a user repository
+ */
+export function createUsersRouter(options: UsersRouterOptions) {
+  // After 5 data source failures in a row, stop calling it for 30 seconds.
+  // Reads then fail fast with a 503, or are served from stale cache entries
+  // when there are any; client errors do not count as failures, calls taking
+  // over 10 seconds (as long as a queue attempt may) do.
+  const circuitBreaker = new CircuitBreaker({
+    failureThreshold: 5,
+    resetTimeout: 30_000,
+    callTimeout: 10_000,
+    isFailure: isDataSourceFailure,
+    ...options.circuitBreaker,
+  });
+  const repository = withCircuitBreaker(options.repository, circuitBreaker);
+  const createCacheStore = options.cacheStore ?? createCacheStoreFactory(undefined, null, options.lifecycle);
+  const router = express.Router();
+
+  // Apply rate limiter to all routes
+  const rateLimiter = options.rateLimiter ?? createUsersRateLimiter();
+  router.use(rateLimiter.middleware());
+
+  // User cache with 100 capacity and 60 second TTL. Expired users are served
+  // for another 30 seconds while they refresh in the background, and for up
+  // to 5 minutes when the data source is failing.
+  const userCacheStore = createCacheStore<User>("user", {
+    capacity: 100,
+    ttlSeconds: 60,
+    staleWhileRevalidateSeconds: 30,
+    staleIfErrorSeconds: 300,
+  });
+
+  // Cache for list pages - cleared whenever any user changes. Pages can be
+  // large, so in memory they also share a 1 MB budget.
+  const userListCacheStore = createCacheStore<UserListPage>("user-list", {
+    capacity: 50,
+    ttlSeconds: 60,
+    maxBytes: 1024 * 1024,
+  });
+
+  // While a shared cache backend is down, requests bypass it rather than
+  // fail - a write must not report an error after it has been committed
+  const userCache = withFailOpen(userCacheStore, "user");
+  const userListCache = withFailOpen(userListCacheStore, "user-list");
+
+  // On shutdown, after the queue has drained and the snapshot (if any) is
+  // saved, stop the caches' timers and subscriptions
+  options.lifecycle?.onShutdown("user caches", async () => {
+    await userCache.destroy();
+    await userListCache.destroy();
+  });
+
+  // Carry the in-memory user cache across restarts: restore it now (requests
+  // arriving meanwhile take precedence) and save it on shutdown
+  const { cacheSnapshotFile } = options;
+  if (cacheSnapshotFile && userCacheStore instanceof LRUCache) {
+    loadCacheSnapshot(userCacheStore, cacheSnapshotFile).catch((error) => {
+      console.error(`Failed to restore user cache from ${cacheSnapshotFile}:`, error);
+    });
+    options.lifecycle?.onShutdown("user cache snapshot", async () => {
+      await saveCacheSnapshot(userCacheStore, cacheSnapshotFile);
+    });
+  }
+
+  // Response time tracking
+  const responseTimeTracker = {
+    times: [] as number[],
+    maxSamples: 100, // Keep last 100 response times
+
+    record(time: number) {
+      this.times.push(time);
+      if (this.times.length > this.maxSamples) {
+        this.times.shift();
+      }
     },
-    performance: {
-      averageResponseTime: responseTimeTracker.getAverage(),
-      unit: "ms"
+
+    getAverage(): number {
+      if (this.times.length === 0)
+        return 0;
+      const sum = this.times.reduce((a, b) => a + b, 0);
+      return Math.round(sum / this.times.length);
     },
-    queue: {
-      pending: queueStats.pending,
-      processing: queueStats.processing,
-      completed: queueStats.completed,
-      failed: queueStats.failed,
-      averageProcessingTime: queueStats.averageProcessingTime
+
+    reset() {
+      this.times = [];
     },
-    timestamp: new Date().toISOString()
+  };
+
+  const databaseQueue = options.databaseQueue ?? createUsersQueue(options.queue);
+
+  // Let in-flight loads finish before the cache is saved and torn down
+  options.lifecycle?.onShutdown("database queue", signal => databaseQueue.drain(signal));
+
+  // A dead letter replayed through the admin API is a read nobody waits for
+  // any more - cache its result, as the original request would have
+  databaseQueue.onReplayed(async (key, result) => {
+    if (key.startsWith("users:list:")) {
+      await userListCache.set(key, result as UserListPage);
+    }
+    else if (key.startsWith("users:batch:")) {
+      const users = new Map((result as User[]).map(user => [user.id, user]));
+      await Promise.all(key.slice("users:batch:".length).split(",").map((id) => {
+        const user = users.get(Number(id));
+        return user
+          ? userCache.set(`user:${id}`, user)
+          : userCache.setNegative(`user:${id}`, NOT_FOUND_TTL_SECONDS);
+      }));
+    }
+    else if (key.startsWith("user:")) {
+      await (result ? userCache.set(key, result as User) : userCache.setNegative(key, NOT_FOUND_TTL_SECONDS));
+    }
   });
-});
 
-// GET /users/:id - Retrieve user data by ID
-router.get<{ id: string }, User | ErrorResponse>("/:id", async (req, res) => {
-  const startTime = Date.now();
-  
-  const userId = Number.parseInt(req.params.id, 10);
+  // Readiness: the data source answers (asked directly, so a recovery is
+  // seen while the circuit is still open), the queue has room and the cache
+  // backend answers. Requests bypass a cache that is down, so that only
+  // warns.
+  options.readiness?.register("repository", async () => {
+    await options.repository.ping();
+    const circuit = circuitBreaker.getState();
+    return { status: circuit === "closed" ? "pass" : "warn", circuitBreaker: circuit };
+  });
+  options.readiness?.register("queue", () => {
+    const { concurrency, maxPending } = databaseQueue.getConfig();
+    const { processing, pending } = databaseQueue.getStats();
+    return {
+      status: pending >= maxPending ? "fail" : processing >= concurrency && pending > 0 ? "warn" : "pass",
+      processing,
+      concurrency,
+      pending,
+      maxPending: Number.isFinite(maxPending) ? maxPending : null,
+    };
+  });
+  options.readiness?.register("cache", async () => {
+    await userCacheStore.ping();
+    return { status: "pass" };
+  }, { critical: false });
 
-  // Validate that the ID is a valid number
-  if (Number.isNaN(userId)) {
-    res.status(400).json({
-      message: "Invalid user ID. Must be a number.",
+  // Queue options for a read made on behalf of a request: the client is the
+  // tenant, and the read is dropped if the client disconnects first
+  function requestQueueOptions(req: KeyRequest, res: Response, priority?: EnqueueOptions["priority"]): EnqueueOptions {
+    return { priority, tenant: rateLimiter.clientKey(req), signal: responseSignal(res) };
+  }
+
+  // Re-run in-flight reads that may include this user - its own lookup, any
+  // batched lookup containing it and every list page - so pending
+  // deduplicated reads never resolve with pre-write data
+  function invalidatePendingReads(userId: number): void {
+    const cacheKey = `user:${userId}`;
+    databaseQueue.invalidate(key =>
+      key === cacheKey
+      || batchQueueKeyIncludes(key, userId)
+      || key.startsWith("users:list:"));
+  }
+
+  // Write-through: refresh the cached entry. Any write can change list
+  // membership, order or totals, so cached list pages are dropped too. The
+  // remove() tells other instances to drop their copy.
+  async function writeThrough(user: User): Promise<void> {
+    invalidatePendingReads(user.id);
+    await userCache.remove(`user:${user.id}`);
+    await userCache.set(`user:${user.id}`, user);
+    await userListCache.clear();
+  }
+
+  // Replace the cached entry of a deleted user with a tombstone
+  async function invalidateUser(userId: number): Promise<void> {
+    invalidatePendingReads(userId);
+    await userCache.remove(`user:${userId}`);
+    await userCache.setNegative(`user:${userId}`, NOT_FOUND_TTL_SECONDS);
+    await userListCache.clear();
+  }
+
+  // Make a write whose failure may not mean it did not happen: a call cut off
+  // by the breaker's timeout can still commit later. On a data source failure
+  // the user's cached entry and the list pages are dropped rather than kept.
+  // A create has no user ID yet, so only the list pages go.
+  async function writeToDataSource<R>(userId: number | null, write: Promise<R>): Promise<R> {
+    try {
+      return await fromDataSource(write);
+    }
+    catch (error) {
+      if (error instanceof UpstreamError) {
+        if (userId !== null) {
+          invalidatePendingReads(userId);
+          await userCache.remove(`user:${userId}`);
+        }
+        await userListCache.clear();
+      }
+      throw error;
+    }
+  }
+
+  // Look up many users at once: cache hits (and cached not-found results) are
+  // served directly and only the misses go to the data source, as a single
+  // queued call
+  async function lookupUsers(ids: number[], queueOptions: EnqueueOptions): Promise<UserBatchResponse> {
+    const uniqueIds = [...new Set(ids)];
+    const found = new Map<number, User>();
+    const misses: number[] = [];
+
+    const lookups = await Promise.all(uniqueIds.map(id => userCache.lookup(`user:${id}`)));
+    lookups.forEach((cached, index) => {
+      if (cached.status === "hit") {
+        found.set(uniqueIds[index], cached.value);
+      }
+      else if (cached.status === "miss") {
+        misses.push(uniqueIds[index]);
+      }
     });
-    return;
+
+    if (misses.length > 0) {
+      misses.sort((a, b) => a - b);
+      const users = await fromDataSource(databaseQueue.enqueue(
+        batchQueueKey(misses),
+        () => repository.findByIds(misses),
+        queueOptions,
+      ));
+
+      for (const user of users) {
+        found.set(user.id, user);
+      }
+
+      await Promise.all(misses.map((id) => {
+        const user = found.get(id);
+        return user
+          ? userCache.set(`user:${id}`, user)
+          : userCache.setNegative(`user:${id}`, NOT_FOUND_TTL_SECONDS);
+      }));
+    }
+
+    return {
+      results: uniqueIds.map((id) => {
+        const user = found.get(id);
+        return user ? { id, found: true, user } : { id, found: false };
+      }),
+      notFound: uniqueIds.filter(id => !found.has(id)),
+      cacheHits: uniqueIds.length - misses.length,
+      fetched: misses.length,
+    };
   }
 
-  const cacheKey = `user:${userId}`;
+  // Load users into the cache ahead of traffic. At most `concurrency` loads
+  // are queued at once so warming never takes over the database queue.
+  async function warmUsers(ids: number[], concurrency: number, tenant: string): Promise<UserWarmResponse> {
+    const uniqueIds = [...new Set(ids)];
+    const result: UserWarmResponse = {
+      requested: uniqueIds.length,
+      alreadyCached: 0,
+      warmed: 0,
+      notFound: [],
+      failed: [],
+    };
 
-  // Check if data is in cache
-  const cachedUser = userCache.get(cacheKey);
-  if (cachedUser) {
-    const responseTime = Date.now() - startTime;
-    responseTimeTracker.record(responseTime);
-    res.json(cachedUser);
-    return;
+    let next = 0;
+    const worker = async () => {
+      while (next < uniqueIds.length) {
+        const id = uniqueIds[next++];
+        const cacheKey = `user:${id}`;
+
+        if ((await userCache.lookup(cacheKey)).status !== "miss") {
+          result.alreadyCached++;
+          continue;
+        }
+
+        try {
+          const user = await databaseQueue.enqueue(cacheKey, () => repository.findById(id), { priority: "low", tenant });
+          if (user) {
+            await userCache.set(cacheKey, user);
+            result.warmed++;
+          }
+          else {
+            await userCache.setNegative(cacheKey, NOT_FOUND_TTL_SECONDS);
+            result.notFound.push(id);
+          }
+        }
+        catch {
+          result.failed.push(id);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, uniqueIds.length) }, worker));
+    return result;
   }
 
-  // Enqueue database request (with automatic deduplication)
-  // Multiple simultaneous requests for the same user will share the result
-  const user = await databaseQueue.enqueue(
-    cacheKey,
-    () => simulateDatabaseCall(userId),
+  // GET /users/cache/stats - Get cache statistics
+  router.get<object, CacheStats>("/cache/stats", async (req, res) => {
+    const stats = await userCache.getStats();
+    res.json(stats);
+  });
+
+  // GET /users/queue/stats - Get queue statistics
+  router.get<object, QueueStats>("/queue/stats", (req, res) => {
+    const stats = databaseQueue.getStats();
+    res.json(stats);
+  });
+
+  // DELETE /users/cache - Clear the entire cache
+  router.delete("/cache", async (req, res) => {
+    await userCache.clear();
+    await userListCache.clear();
+    responseTimeTracker.reset();
+    res.json({
+      message: "Cache cleared successfully",
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // POST /users/cache/warm - Pre-load users into the cache. One call can
+  // queue up to 1000 data source reads, so it takes the admin token.
+  router.post<object, UserWarmResponse, UserWarmBody>("/cache/warm", requireAdmin(options.adminToken), validate({ body: userWarmBodySchema }), async (req, res) => {
+    res.json(await warmUsers(req.body.ids, req.body.concurrency, rateLimiter.clientKey(req)));
+  });
+
+  // GET /users/cache-status - Get comprehensive cache status
+  router.get("/cache-status", async (req, res) => {
+    const cacheStats = await userCache.getStats();
+    const queueStats = databaseQueue.getStats();
+
+    res.json({
+      cache: {
+        size: cacheStats.size,
+        capacity: cacheStats.capacity,
+        hits: cacheStats.hits,
+        misses: cacheStats.misses,
+        evictions: cacheStats.evictions,
+        expirations: cacheStats.expirations,
+        staleHits: cacheStats.staleHits,
+        staleIfErrorHits: cacheStats.staleIfErrorHits,
+        backgroundRefreshes: cacheStats.backgroundRefreshes,
+        negativeHits: cacheStats.negativeHits,
+        tombstones: cacheStats.tombstones,
+        invalidationsSent: cacheStats.invalidationsSent,
+        invalidationsReceived: cacheStats.invalidationsReceived,
+        hitRate: cacheStats.hits + cacheStats.misses > 0
+          ? `${((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100).toFixed(2)}%`
+          : "0%",
+      },
+      performance: {
+        averageResponseTime: responseTimeTracker.getAverage(),
+        unit: "ms",
+      },
+      queue: {
+        pending: queueStats.pending,
+        processing: queueStats.processing,
+        completed: queueStats.completed,
+        failed: queueStats.failed,
+        averageProcessingTime: queueStats.averageProcessingTime,
+      },
+      circuitBreaker: circuitBreaker.getStats(),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // GET /users?ids=1,2,3 - Batch lookup. Requests without `ids` skip to the
+  // listing route below.
+  router.get<object, UserBatchResponse, unknown, UserBatchQuery>(
+    "/",
+    (req, res, next) => next(req.query.ids === undefined ? "route" : undefined),
+    validate({ query: userBatchQuerySchema }),
+    async (req, res) => {
+      res.json(await lookupUsers(req.query.ids, requestQueueOptions(req, res)));
+    },
   );
 
-  if (!user) {
+  // POST /users/batch - Batch lookup with the IDs in the body
+  router.post<object, UserBatchResponse, UserBatchBody>("/batch", validate({ body: userBatchBodySchema }), async (req, res) => {
+    res.json(await lookupUsers(req.body.ids, requestQueueOptions(req, res)));
+  });
+
+  // GET /users - List users with filtering, sorting and pagination
+  router.get<object, UserListResponse, unknown, UserListQuery>("/", validate({ query: userListQuerySchema }), async (req, res) => {
+    const query = req.query;
+    const cacheKey = listCacheKey(query);
+
+    let page = await userListCache.get(cacheKey);
+    if (!page) {
+      page = await fromDataSource(databaseQueue.enqueue(cacheKey, () => repository.list(query), requestQueueOptions(req, res)));
+      await userListCache.set(cacheKey, page);
+    }
+
+    res.setHeader("X-Total-Count", page.total.toString());
+    res.setHeader("Link", buildLinkHeader(req, query, page));
+    res.json({ ...page, limit: query.limit });
+  });
+
+  // POST /users - Create a new user
+  router.post<object, User, UserInput>("/", validate({ body: userInputSchema }), async (req, res) => {
+    const user = await writeToDataSource(null, repository.create(req.body));
+
+    await writeThrough(user);
+    res.status(201).json(user);
+  });
+
+  // GET /users/:id - Retrieve user data by ID
+  router.get<UserParams, User>("/:id", validate({ params: userParamsSchema }), async (req, res) => {
+    const startTime = Date.now();
+    const userId = req.params.id;
+    const cacheKey = `user:${userId}`;
+
+    // Serve from cache, otherwise enqueue a database request (with automatic
+    // deduplication - simultaneous requests for the same user share the
+    // result, and the read is only dropped once all of them have
+    // disconnected). Background refreshes of stale entries use the queue too,
+    // and not-found results are cached as tombstones.
+    const user = await userCache.fetch(cacheKey, () => fromDataSource(databaseQueue.enqueue(
+      cacheKey,
+      () => repository.findById(userId),
+      requestQueueOptions(req, res, "high"),
+    )), { negativeTtlSeconds: NOT_FOUND_TTL_SECONDS });
+
+    if (!user) {
+      const responseTime = Date.now() - startTime;
+      responseTimeTracker.record(responseTime);
+      throw new NotFoundError(`User with ID ${userId} not found.`);
+    }
+
     const responseTime = Date.now() - startTime;
     responseTimeTracker.record(responseTime);
-    res.status(404).json({
-      message: `User with ID ${userId} not found.`,
-    });
-    return;
-  }
+    res.json(user);
+  });
+
+  // PUT /users/:id - Replace a user
+  router.put<UserParams, User, UserInput>("/:id", validate({ params: userParamsSchema, body: userInputSchema }), async (req, res) => {
+    const userId = req.params.id;
+    const user = await writeToDataSource(userId, repository.update(userId, req.body));
+
+    if (!user) {
+      throw new NotFoundError(`User with ID ${userId} not found.`);
+    }
 
-  // Store in cache
-  userCache.set(cacheKey, user);
+    await writeThrough(user);
+    res.json(user);
+  });
+
+  // PATCH /users/:id - Partially update a user
+  router.patch<UserParams, User, Partial<UserInput>>("/:id", validate({ params: userParamsSchema, body: userPatchSchema }), async (req, res) => {
+    const userId = req.params.id;
+    const user = await writeToDataSource(userId, repository.update(userId, req.body));
+
+    if (!user) {
+      throw new NotFoundError(`User with ID ${userId} not found.`);
+    }
 
-  const responseTime = Date.now() - startTime;
-  responseTimeTracker.record(responseTime);
-  res.json(user);
-});
+    await writeThrough(user);
+    res.json(user);
+  });
+
+  // DELETE /users/:id - Delete a user
+  router.delete<UserParams>("/:id", validate({ params: userParamsSchema }), async (req, res) => {
+    const userId = req.params.id;
+    const deleted = await writeToDataSource(userId, repository.delete(userId));
+
+    if (!deleted) {
+      throw new NotFoundError(`User with ID ${userId} not found.`);
+    }
+
+    await invalidateUser(userId);
+    res.status(204).end();
+  });
+
+  return router;
+}
 
-export default router;
+export default createUsersRouter;
@@ -3,27 +3,119 @@ import express from "express";
 import helmet from "helmet";
 import morgan from "morgan";
 
+import type { UsersRateLimitOptions, UsersRouterOptions } from "./api/users.js";
 import type MessageResponse from "./interfaces/message-response.js";
 
-import api from "./api/index.js";
+import { createApiRouter } from "./api/index.js";
+import { createUsersQueue, createUsersRateLimiter } from "./api/users.js";
+import { env } from "./env.js";
+import { HealthChecks } from "./health.js";
+import { Lifecycle } from "./lifecycle.js";
+import { parseApiKeys } from "./middleware/rate-limit-policy.js";
+import { createRateLimitStore } from "./middleware/rate-limit-store.js";
 import * as middlewares from "./middlewares.js";
+import { createUserRepository } from "./repositories/index.js";
 
-const app = express();
+/**
+ * App options - everything is optional so tests can inject only what they need
+ */
+export type AppOptions = {
+  userRepository?: UsersRouterOptions["repository"];
+  userQueue?: UsersRouterOptions["queue"];
+  userCircuitBreaker?: UsersRouterOptions["circuitBreaker"];
+  cacheStore?: UsersRouterOptions["cacheStore"];
+  cacheSnapshotFile?: UsersRouterOptions["cacheSnapshotFile"];
+  rateLimit?: UsersRateLimitOptions;
+  adminToken?: string; // Enables the admin API; defaults to ADMIN_API_TOKEN
+  trustProxy?: string; // Defaults to TRUST_PROXY
+  lifecycle?: Lifecycle; // Receives the app's shutdown tasks
+};
 
-app.use(morgan("dev"));
-app.use(helmet());
-app.use(cors());
-app.use(express.json());
+// Parse TRUST_PROXY: empty trusts no proxy, a number trusts that many hops,
+// anything else is a comma-separated list of addresses, CIDR ranges or the
+// names "loopback", "linklocal" and "uniquelocal"
+function parseTrustProxy(value: string): boolean | number | string[] {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return false;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return trimmed.split(",").map(entry => entry.trim()).filter(Boolean);
+}
 
-app.get<object, MessageResponse>("/", (req, res) => {
-  res.json({
-    message: "🦄🌈✨👋🌎🌍🌏✨🌈🦄",
+export function createApp(options: AppOptions = {}) {
+  const app = express();
+  const lifecycle = options.lifecycle ?? new Lifecycle();
+
+  // Only trust X-Forwarded-For from known proxies - otherwise req.ip, and
+  // with it every rate limit key, is either the proxy or client-controlled
+  app.set("trust proxy", parseTrustProxy(options.trustProxy ?? env.TRUST_PROXY));
+
+  app.use(middlewares.requestId);
+  app.use(morgan("dev"));
+  app.use(helmet());
+  app.use(cors());
+  app.use(express.json());
+
+  app.get<object, MessageResponse>("/", (req, res) => {
+    res.json({
+      message: "🦄🌈✨👋🌎🌍🌏✨🌈🦄",
+    });
+  });
+
+  const rateLimiter = createUsersRateLimiter({
+    algorithm: env.RATE_LIMIT_ALGORITHM,
+    legacyHeaders: env.RATE_LIMIT_LEGACY_HEADERS,
+    ...options.rateLimit,
+    store: options.rateLimit?.store ?? createRateLimitStore(),
+    policy: {
+      apiKeys: parseApiKeys(env.RATE_LIMIT_API_KEYS),
+      ipv6Subnet: env.RATE_LIMIT_IPV6_SUBNET,
+      ...options.rateLimit?.policy,
+    },
   });
-});
 
-app.use("/", api);
+  // Registered first, so the rate limiter is torn down after everything else
+  lifecycle.onShutdown("rate limiter", () => rateLimiter.destroy());
+
+  const adminToken = options.adminToken ?? env.ADMIN_API_TOKEN;
+  const databaseQueue = createUsersQueue(options.userQueue);
+  const readiness = new HealthChecks();
+
+  app.use("/", createApiRouter({
+    users: {
+      repository: options.userRepository ?? createUserRepository(),
+      databaseQueue,
+      circuitBreaker: {
+        failureThreshold: env.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+        resetTimeout: env.CIRCUIT_BREAKER_RESET_SECONDS * 1000,
+        ...options.userCircuitBreaker,
+      },
+      cacheStore: options.cacheStore,
+      cacheSnapshotFile: options.cacheSnapshotFile ?? env.CACHE_SNAPSHOT_FILE,
+      rateLimiter,
+      adminToken,
+      lifecycle,
+      readiness,
+    },
+    admin: {
+      token: adminToken,
+      rateLimiter,
+      queue: databaseQueue,
+    },
+    health: { lifecycle, readiness },
+  }));
+
+  app.use(middlewares.notFound);
+  app.use(middlewares.errorHandler);
+
+  return app;
+}
+
+export const lifecycle = new Lifecycle();
 
-app.use(middlewares.notFound);
-app.use(middlewares.errorHandler);
+const app = createApp({ lifecycle });
 
 export default app;
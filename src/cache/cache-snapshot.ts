@@ -0,0 +1,43 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { CacheSnapshot, LRUCache } from "./lru-cache.js";
+
+/**
+ * Write a cache snapshot to a file (atomically: temporary file, then rename).
+ * Returns the number of entries written.
+ */
+export async function saveCacheSnapshot<T>(cache: LRUCache<T>, filePath: string): Promise<number> {
+  const snapshot = cache.snapshot();
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(snapshot));
+  await fs.rename(tempPath, filePath);
+
+  return snapshot.entries.length;
+}
+
+/**
+ * Restore a cache from a snapshot file. A missing file restores nothing.
+ * Returns the number of entries restored.
+ */
+export async function loadCacheSnapshot<T>(cache: LRUCache<T>, filePath: string): Promise<number> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, "utf8");
+  }
+  catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+
+  const snapshot = JSON.parse(contents) as CacheSnapshot<T>;
+  if (snapshot.version !== 1 || !Array.isArray(snapshot.entries)) {
+    throw new Error(`Unsupported cache snapshot in ${filePath}`);
+  }
+
+  return cache.restore(snapshot);
+}
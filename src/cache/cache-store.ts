@@ -0,0 +1,23 @@
+import type { CacheFetchOptions, CacheLookup, CacheSetOptions, CacheStats } from "./lru-cache.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Cache Store Interface
+ *
+ * Implemented by the in-process LRUCache and by shared backends. Results may
+ * be returned directly or as promises, so callers should always await them.
+ */
+export type CacheStore<T> = {
+  get: (key: string) => MaybePromise<T | null>;
+  lookup: (key: string) => MaybePromise<CacheLookup<T>>;
+  fetch: (key: string, loader: () => Promise<T | null>, options?: CacheFetchOptions) => Promise<T | null>;
+  set: (key: string, value: T, options?: CacheSetOptions) => MaybePromise<void>;
+  setNegative: (key: string, ttlSeconds: number) => MaybePromise<void>;
+  remove: (key: string) => MaybePromise<boolean>;
+  clear: () => MaybePromise<void>;
+  getStats: () => MaybePromise<CacheStats>;
+  resetStats: () => MaybePromise<void>;
+  ping: () => MaybePromise<void>; // Rejects when the backend cannot be reached
+  destroy: () => MaybePromise<void>;
+};
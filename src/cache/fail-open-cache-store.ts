@@ -0,0 +1,99 @@
+import type { CacheStore } from "./cache-store.js";
+
+// Log a failed cache operation that the caller carries on without
+function logFailure(name: string, operation: string, error: unknown): void {
+  console.error(`Cache "${name}" unavailable, ${operation}:`, error);
+}
+
+/**
+ * Keep serving when a cache backend is down: failed reads are treated as
+ * misses and failed writes or invalidations are skipped, so requests go to
+ * the data source instead of failing. Errors from `fetch` loaders are passed
+ * on as before. Statistics, reset, ping and teardown are not wrapped.
+ */
+export function withFailOpen<T>(store: CacheStore<T>, name: string): CacheStore<T> {
+  return {
+    get: async (key) => {
+      try {
+        return await store.get(key);
+      }
+      catch (error) {
+        logFailure(name, "treating as a miss", error);
+        return null;
+      }
+    },
+    lookup: async (key) => {
+      try {
+        return await store.lookup(key);
+      }
+      catch (error) {
+        logFailure(name, "treating as a miss", error);
+        return { status: "miss" };
+      }
+    },
+    fetch: async (key, loader, options) => {
+      let loaded: { value: T | null } | undefined;
+      let loaderFailed = false;
+      const trackedLoader = async () => {
+        try {
+          loaded = { value: await loader() };
+          return loaded.value;
+        }
+        catch (error) {
+          loaderFailed = true;
+          throw error;
+        }
+      };
+
+      try {
+        return await store.fetch(key, trackedLoader, options);
+      }
+      catch (error) {
+        if (loaderFailed) {
+          throw error;
+        }
+        logFailure(name, "loading without it", error);
+        return loaded ? loaded.value : loader();
+      }
+    },
+    set: async (key, value, options) => {
+      try {
+        await store.set(key, value, options);
+      }
+      catch (error) {
+        logFailure(name, "skipping write", error);
+      }
+    },
+    setNegative: async (key, ttlSeconds) => {
+      try {
+        await store.setNegative(key, ttlSeconds);
+      }
+      catch (error) {
+        logFailure(name, "skipping write", error);
+      }
+    },
+    remove: async (key) => {
+      try {
+        return await store.remove(key);
+      }
+      catch (error) {
+        logFailure(name, "skipping invalidation", error);
+        return false;
+      }
+    },
+    clear: async () => {
+      try {
+        await store.clear();
+      }
+      catch (error) {
+        logFailure(name, "skipping invalidation", error);
+      }
+    },
+    getStats: () => store.getStats(),
+    resetStats: () => store.resetStats(),
+    ping: () => store.ping(),
+    destroy: () => store.destroy(),
+  };
+}
+
+export default withFailOpen;
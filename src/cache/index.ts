@@ -0,0 +1,69 @@
+import type { Lifecycle } from "../lifecycle.js";
+import type { PubSub } from "../pubsub/index.js";
+import type { CacheStore } from "./cache-store.js";
+import type { LRUCacheOptions } from "./lru-cache.js";
+
+import { env } from "../env.js";
+import { createInvalidationPubSub } from "../pubsub/index.js";
+import { RespClient } from "../redis/resp-client.js";
+import { LRUCache } from "./lru-cache.js";
+import { RedisCacheStore } from "./redis-cache-store.js";
+
+export type { CacheStore } from "./cache-store.js";
+export { withFailOpen } from "./fail-open-cache-store.js";
+export type { CacheFetchOptions, CacheLookup, CacheSetOptions, CacheStats } from "./lru-cache.js";
+
+/**
+ * Settings for one cache. Memory budget and size estimator only apply to the
+ * in-process store.
+ */
+export type CacheStoreOptions<T> = {
+  capacity: number;
+  ttlSeconds: number;
+} & Omit<LRUCacheOptions<T>, "invalidation">;
+
+/**
+ * Creates a named cache - the name keeps caches apart in a shared backend
+ */
+export type CacheStoreFactory = <T>(name: string, options: CacheStoreOptions<T>) => CacheStore<T>;
+
+/**
+ * Create a cache factory for the backend selected by CACHE_STORE. All caches
+ * from a Redis factory share one connection. In-memory caches publish their
+ * invalidations on `pubSub` (by default the transport selected by
+ * CACHE_INVALIDATION), one channel per cache name. Connections the factory
+ * opens itself are closed on `lifecycle` shutdown.
+ */
+export function createCacheStoreFactory(
+  config: Pick<typeof env, "CACHE_STORE" | "CACHE_INVALIDATION" | "REDIS_URL"> = env,
+  pubSub: PubSub | null = null,
+  lifecycle?: Lifecycle,
+): CacheStoreFactory {
+  switch (config.CACHE_STORE) {
+    case "redis": {
+      let client: RespClient | null = null;
+      return <T>(name: string, options: CacheStoreOptions<T>) => {
+        if (!client) {
+          const connection = new RespClient(config.REDIS_URL);
+          lifecycle?.onShutdown("cache store connection", () => connection.close());
+          client = connection;
+        }
+        return new RedisCacheStore<T>(client, { prefix: `cache:${name}:`, ...options });
+      };
+    }
+    case "memory":
+    default: {
+      const invalidationPubSub = pubSub ?? createInvalidationPubSub(config);
+      if (invalidationPubSub && !pubSub) {
+        lifecycle?.onShutdown("cache invalidation connection", () => invalidationPubSub.close());
+      }
+      return <T>(name: string, options: CacheStoreOptions<T>) => {
+        const { capacity, ttlSeconds, ...rest } = options;
+        return new LRUCache<T>(capacity, ttlSeconds, {
+          ...rest,
+          invalidation: invalidationPubSub ? { pubSub: invalidationPubSub, channel: `cache-invalidation:${name}` } : undefined,
+        });
+      };
+    }
+  }
+}
@@ -1,17 +1,28 @@
+import { randomUUID } from "node:crypto";
+
+import type { PubSub } from "../pubsub/pub-sub.js";
+import type { CacheStore } from "./cache-store.js";
+
 /**
  * LRU Cache Node
+ *
+ * A node whose value is null is a tombstone: a cached "does not exist" result.
  */
 class CacheNode<T> {
   key: string;
-  value: T;
+  value: T | null;
   timestamp: number;
+  ttl: number; // Time to live in milliseconds
+  size: number; // Estimated size in bytes
   prev: CacheNode<T> | null = null;
   next: CacheNode<T> | null = null;
 
-  constructor(key: string, value: T) {
+  constructor(key: string, value: T | null, ttl: number, size: number) {
     this.key = key;
     this.value = value;
     this.timestamp = Date.now();
+    this.ttl = ttl;
+    this.size = size;
   }
 }
 
@@ -25,17 +36,117 @@ export type CacheStats = {
   capacity: number;
   evictions: number;
   expirations: number;
+  staleHits: number; // Expired entries served while revalidating
+  staleIfErrorHits: number; // Expired entries served because the loader failed
+  backgroundRefreshes: number;
+  backgroundRefreshFailures: number;
+  negativeHits: number; // Lookups answered by a tombstone
+  tombstones: number; // Cached "does not exist" entries (included in size)
+  memoryUsage: number; // Approximate bytes held, per the size estimator
+  maxBytes: number | null; // Memory budget, if any
+  invalidationsSent: number; // remove()/clear() calls published to other instances
+  invalidationsReceived: number; // Invalidations from other instances applied here
+};
+
+/**
+ * Result of lookup()
+ */
+export type CacheLookup<T>
+  = | { status: "hit"; value: T }
+    | { status: "negative" } // Known not to exist
+    | { status: "miss" };
+
+/**
+ * Optional cache behaviour
+ *
+ * Both stale windows start when an entry's TTL runs out.
+ */
+export type LRUCacheOptions<T> = {
+  staleWhileRevalidateSeconds?: number; // Serve expired entries while a background refresh runs
+  staleIfErrorSeconds?: number; // Serve expired entries when the loader fails
+  maxBytes?: number; // Evict least recently used entries beyond this many (estimated) bytes
+  sizeEstimator?: (value: T, key: string) => number; // Bytes used by an entry
+  invalidation?: CacheInvalidationOptions; // Keep remove()/clear() in step across instances
+};
+
+/**
+ * Cross-instance invalidation - every cache publishing to a channel applies
+ * the others' remove() and clear() calls
+ */
+export type CacheInvalidationOptions = {
+  pubSub: PubSub;
+  channel: string;
 };
 
+/**
+ * One entry of a snapshot
+ */
+export type CacheSnapshotEntry<T> = {
+  key: string;
+  value: T | null; // null for a tombstone
+  ttl: number; // Milliseconds
+  expiresIn: number; // Remaining TTL in milliseconds when taken - negative once expired
+};
+
+/**
+ * Cache contents at a point in time, most recently used entry first
+ */
+export type CacheSnapshot<T> = {
+  version: 1;
+  createdAt: number; // Epoch milliseconds
+  entries: CacheSnapshotEntry<T>[];
+};
+
+/**
+ * Invalidation message. `origin` identifies the publishing cache so it can
+ * ignore its own messages.
+ */
+type InvalidationMessage
+  = | { origin: string; type: "remove"; key: string }
+    | { origin: string; type: "clear" };
+
+/**
+ * Per-entry overrides for set()
+ */
+export type CacheSetOptions = {
+  ttlSeconds?: number;
+};
+
+/**
+ * Per-call overrides for fetch()
+ */
+export type CacheFetchOptions = {
+  ttlSeconds?: number; // TTL for a loaded value
+  negativeTtlSeconds?: number; // Cache a null loader result for this long
+};
+
+/**
+ * Default size estimator - strings are UTF-16, so two bytes per character of
+ * the key and of the value's JSON form
+ */
+export function estimateSize(value: unknown, key: string): number {
+  const json = JSON.stringify(value) ?? "";
+  return (key.length + json.length) * 2;
+}
+
 /**
  * LRU Cache with Time-based Expiration
  */
-export class LRUCache<T> {
+export class LRUCache<T> implements CacheStore<T> {
   private capacity: number;
-  private ttl: number; // Time to live in milliseconds
+  private ttl: number; // Default time to live in milliseconds
+  private staleWhileRevalidate: number; // Milliseconds past the TTL
+  private staleIfError: number; // Milliseconds past the TTL
+  private maxBytes: number | null;
+  private sizeEstimator: (value: T, key: string) => number;
+  private bytes = 0;
+  private refreshing: Set<string> = new Set();
+  private loads: Map<string, { count: number; generation: number }> = new Map(); // Keys with misses being loaded
   private cache: Map<string, CacheNode<T>>;
   private head: CacheNode<T> | null = null;
   private tail: CacheNode<T> | null = null;
+  private invalidation: CacheInvalidationOptions | null;
+  private origin = randomUUID();
 
   // Statistics
   private stats = {
@@ -43,22 +154,38 @@ export class LRUCache<T> {
     misses: 0,
     evictions: 0,
     expirations: 0,
+    staleHits: 0,
+    staleIfErrorHits: 0,
+    backgroundRefreshes: 0,
+    backgroundRefreshFailures: 0,
+    negativeHits: 0,
+    invalidationsSent: 0,
+    invalidationsReceived: 0,
   };
 
   // Background cleanup interval
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(capacity: number = 100, ttlSeconds: number = 60) {
+  constructor(capacity: number = 100, ttlSeconds: number = 60, options: LRUCacheOptions<T> = {}) {
     this.capacity = capacity;
     this.ttl = ttlSeconds * 1000; // Convert to milliseconds
+    this.staleWhileRevalidate = (options.staleWhileRevalidateSeconds ?? 0) * 1000;
+    this.staleIfError = (options.staleIfErrorSeconds ?? 0) * 1000;
+    this.maxBytes = options.maxBytes ?? null;
+    this.sizeEstimator = options.sizeEstimator ?? estimateSize;
+    this.invalidation = options.invalidation ?? null;
     this.cache = new Map();
 
     // Start background cleanup task
     this.startCleanupTask();
+
+    this.invalidation?.pubSub.subscribe(this.invalidation.channel, this.onInvalidation).catch(() => {});
   }
 
   /**
    * Get value from cache
+   *
+   * Tombstones are reported as misses; use fetch() to take advantage of them.
    */
   get(key: string): T | null {
     const node = this.cache.get(key);
@@ -68,11 +195,19 @@ export class LRUCache<T> {
       return null;
     }
 
-    // Check if entry has expired
+    // Check if entry has expired. Entries still inside a stale window are
+    // kept around for fetch().
     if (this.isExpired(node)) {
       this.stats.misses++;
-      this.stats.expirations++;
-      this.remove(key);
+      if (this.isPastRetention(node)) {
+        this.stats.expirations++;
+        this.removeLocal(key);
+      }
+      return null;
+    }
+
+    if (node.value === null) {
+      this.stats.misses++;
       return null;
     }
 
@@ -83,58 +218,185 @@ export class LRUCache<T> {
   }
 
   /**
-   * Set value in cache
+   * Look up a key, telling cached "does not exist" results apart from misses
    */
-  set(key: string, value: T): void {
-    // If key already exists, update it
-    if (this.cache.has(key)) {
-      const node = this.cache.get(key)!;
-      node.value = value;
-      node.timestamp = Date.now();
+  lookup(key: string): CacheLookup<T> {
+    const node = this.cache.get(key);
+
+    if (node && node.value === null && !this.isExpired(node)) {
       this.moveToFront(node);
-      return;
+      this.stats.negativeHits++;
+      return { status: "negative" };
     }
 
-    // Create new node
-    const newNode = new CacheNode(key, value);
+    const value = this.get(key);
+    return value === null ? { status: "miss" } : { status: "hit", value };
+  }
 
-    // If at capacity, remove least recently used (tail)
-    if (this.cache.size >= this.capacity) {
-      this.removeLRU();
+  /**
+   * Get value from cache, loading it on a miss
+   *
+   * - Fresh entries (including tombstones) are returned directly.
+   * - Expired entries inside the stale-while-revalidate window are returned
+   *   immediately while the loader refreshes them in the background (at most
+   *   one refresh per key at a time).
+   * - Otherwise the loader is awaited and its result cached. If it fails and
+   *   the expired entry is inside the stale-if-error window, the stale value
+   *   is returned instead of the error.
+   *
+   * A null loader result is only cached (as a tombstone) when
+   * `negativeTtlSeconds` is given. Expired tombstones are never served stale.
+   * A result is not cached when the key was removed or cleared, here or by
+   * another instance, while the loader ran.
+   */
+  async fetch(key: string, loader: () => Promise<T | null>, options: CacheFetchOptions = {}): Promise<T | null> {
+    const node = this.cache.get(key);
+
+    if (node && !this.isExpired(node)) {
+      this.moveToFront(node);
+      if (node.value === null) {
+        this.stats.negativeHits++;
+      }
+      else {
+        this.stats.hits++;
+      }
+      return node.value;
     }
 
-    // Add to cache and front of list
-    this.cache.set(key, newNode);
-    this.addToFront(newNode);
+    if (node && node.value !== null && this.age(node) <= node.ttl + this.staleWhileRevalidate) {
+      this.moveToFront(node);
+      this.stats.staleHits++;
+      this.revalidate(key, node, loader, options);
+      return node.value;
+    }
+
+    this.stats.misses++;
+
+    const load = this.loads.get(key) ?? { count: 0, generation: 0 };
+    const generation = load.generation;
+    load.count++;
+    this.loads.set(key, load);
+
+    try {
+      const value = await loader();
+      // Skip the result if the key was invalidated meanwhile - it may predate the write
+      if (load.generation === generation) {
+        this.store(key, value, options);
+      }
+      return value;
+    }
+    catch (error) {
+      const stale = this.cache.get(key);
+      if (stale && stale.value !== null && this.age(stale) <= stale.ttl + this.staleIfError) {
+        this.stats.staleIfErrorHits++;
+        return stale.value;
+      }
+      throw error;
+    }
+    finally {
+      load.count--;
+      if (load.count === 0) {
+        this.loads.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Set value in cache
+   */
+  set(key: string, value: T, options: CacheSetOptions = {}): void {
+    const ttl = options.ttlSeconds !== undefined ? options.ttlSeconds * 1000 : this.ttl;
+    this.setNode(key, value, ttl, this.sizeEstimator(value, key));
+  }
+
+  /**
+   * Cache a "does not exist" result (tombstone) for a key. Setting a value
+   * for the key later replaces the tombstone.
+   */
+  setNegative(key: string, ttlSeconds: number): void {
+    this.setNode(key, null, ttlSeconds * 1000, estimateSize(null, key));
   }
 
   /**
-   * Remove a specific key from cache
+   * Remove a specific key from cache (and from other instances' caches)
    */
   remove(key: string): boolean {
-    const node = this.cache.get(key);
-    if (!node) {
-      return false;
+    this.invalidateLoads(key);
+    const removed = this.removeLocal(key);
+    this.publishInvalidation({ origin: this.origin, type: "remove", key });
+    return removed;
+  }
+
+  /**
+   * Clear all cache entries (here and in other instances)
+   */
+  clear(): void {
+    this.invalidateLoads();
+    this.clearLocal();
+    this.publishInvalidation({ origin: this.origin, type: "clear" });
+  }
+
+  /**
+   * Export the entries still usable (fresh or inside a stale window), most
+   * recently used first
+   */
+  snapshot(): CacheSnapshot<T> {
+    const entries: CacheSnapshotEntry<T>[] = [];
+    for (let node = this.head; node; node = node.next) {
+      if (!this.isPastRetention(node)) {
+        entries.push({ key: node.key, value: node.value, ttl: node.ttl, expiresIn: node.ttl - this.age(node) });
+      }
     }
 
-    this.removeNode(node);
-    this.cache.delete(key);
-    return true;
+    return { version: 1, createdAt: Date.now(), entries };
   }
 
   /**
-   * Clear all cache entries
+   * Load a snapshot, keeping its recency order. The time since the snapshot
+   * was taken counts against each entry's remaining TTL. Keys that are
+   * already cached win over the snapshot. Returns the number of entries
+   * restored (and not evicted again to fit the capacity or memory budget).
    */
-  clear(): void {
-    this.cache.clear();
-    this.head = null;
-    this.tail = null;
+  restore(snapshot: CacheSnapshot<T>): number {
+    const elapsed = Math.max(0, Date.now() - snapshot.createdAt);
+    const restored = new Set<string>();
+
+    // Insert least recently used first so the most recent ends up in front
+    for (let i = snapshot.entries.length - 1; i >= 0; i--) {
+      const { key, value, ttl, expiresIn } = snapshot.entries[i];
+      if (this.cache.has(key)) {
+        continue;
+      }
+
+      const size = value === null ? estimateSize(null, key) : this.sizeEstimator(value, key);
+      this.setNode(key, value, ttl, size);
+      const node = this.cache.get(key);
+      if (!node) {
+        continue; // Over the memory budget
+      }
+
+      node.timestamp = Date.now() - (ttl - (expiresIn - elapsed));
+      if (this.isPastRetention(node)) {
+        this.removeLocal(key);
+        continue;
+      }
+      restored.add(key);
+    }
+
+    return [...restored].filter(key => this.cache.has(key)).length;
   }
 
   /**
    * Get current cache statistics
    */
   getStats(): CacheStats {
+    let tombstones = 0;
+    for (const node of this.cache.values()) {
+      if (node.value === null) {
+        tombstones++;
+      }
+    }
+
     return {
       hits: this.stats.hits,
       misses: this.stats.misses,
@@ -142,6 +404,16 @@ export class LRUCache<T> {
       capacity: this.capacity,
       evictions: this.stats.evictions,
       expirations: this.stats.expirations,
+      staleHits: this.stats.staleHits,
+      staleIfErrorHits: this.stats.staleIfErrorHits,
+      backgroundRefreshes: this.stats.backgroundRefreshes,
+      backgroundRefreshFailures: this.stats.backgroundRefreshFailures,
+      negativeHits: this.stats.negativeHits,
+      tombstones,
+      memoryUsage: this.bytes,
+      maxBytes: this.maxBytes,
+      invalidationsSent: this.stats.invalidationsSent,
+      invalidationsReceived: this.stats.invalidationsReceived,
     };
   }
 
@@ -153,13 +425,200 @@ export class LRUCache<T> {
     this.stats.misses = 0;
     this.stats.evictions = 0;
     this.stats.expirations = 0;
+    this.stats.staleHits = 0;
+    this.stats.staleIfErrorHits = 0;
+    this.stats.backgroundRefreshes = 0;
+    this.stats.backgroundRefreshFailures = 0;
+    this.stats.negativeHits = 0;
+    this.stats.invalidationsSent = 0;
+    this.stats.invalidationsReceived = 0;
+  }
+
+  /**
+   * Tell other instances about a remove() or clear()
+   */
+  private publishInvalidation(message: InvalidationMessage): void {
+    if (!this.invalidation) {
+      return;
+    }
+
+    this.invalidation.pubSub.publish(this.invalidation.channel, JSON.stringify(message))
+      .then(() => {
+        this.stats.invalidationsSent++;
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * Apply another instance's invalidation locally, without publishing it
+   * again, so messages never bounce between instances
+   */
+  private onInvalidation = (raw: string): void => {
+    let message: InvalidationMessage;
+    try {
+      message = JSON.parse(raw) as InvalidationMessage;
+    }
+    catch {
+      return;
+    }
+
+    if (message.origin === this.origin) {
+      return;
+    }
+
+    this.stats.invalidationsReceived++;
+    if (message.type === "remove") {
+      this.invalidateLoads(message.key);
+      this.removeLocal(message.key);
+    }
+    else if (message.type === "clear") {
+      this.invalidateLoads();
+      this.clearLocal();
+    }
+  };
+
+  /**
+   * Keep loads of a key (or of every key) that are already running from
+   * storing their result
+   */
+  private invalidateLoads(key?: string): void {
+    const loads = key === undefined ? this.loads.values() : [this.loads.get(key)];
+    for (const load of loads) {
+      if (load) {
+        load.generation++;
+      }
+    }
+  }
+
+  /**
+   * Remove a key from this instance only
+   */
+  private removeLocal(key: string): boolean {
+    const node = this.cache.get(key);
+    if (!node) {
+      return false;
+    }
+
+    this.removeNode(node);
+    this.cache.delete(key);
+    this.bytes -= node.size;
+    return true;
+  }
+
+  /**
+   * Clear this instance only
+   */
+  private clearLocal(): void {
+    this.cache.clear();
+    this.refreshing.clear();
+    this.head = null;
+    this.tail = null;
+    this.bytes = 0;
+  }
+
+  /**
+   * Store a loader result: a value with its TTL, or a tombstone when negative
+   * caching is requested
+   */
+  private store(key: string, value: T | null, options: CacheFetchOptions): void {
+    if (value !== null) {
+      this.set(key, value, { ttlSeconds: options.ttlSeconds });
+    }
+    else if (options.negativeTtlSeconds !== undefined) {
+      this.setNegative(key, options.negativeTtlSeconds);
+    }
+    else {
+      this.removeLocal(key);
+    }
+  }
+
+  /**
+   * Insert or update an entry, then evict until count and memory fit
+   */
+  private setNode(key: string, value: T | null, ttl: number, size: number): void {
+    // An entry larger than the whole budget would evict everything else
+    if (this.maxBytes !== null && size > this.maxBytes) {
+      this.removeLocal(key);
+      return;
+    }
+
+    // If key already exists, update it
+    const existing = this.cache.get(key);
+    if (existing) {
+      this.bytes += size - existing.size;
+      existing.value = value;
+      existing.timestamp = Date.now();
+      existing.ttl = ttl;
+      existing.size = size;
+      this.moveToFront(existing);
+    }
+    else {
+      // If at capacity, remove least recently used (tail)
+      if (this.cache.size >= this.capacity) {
+        this.removeLRU();
+      }
+
+      // Add to cache and front of list
+      const newNode = new CacheNode<T>(key, value, ttl, size);
+      this.cache.set(key, newNode);
+      this.addToFront(newNode);
+      this.bytes += size;
+    }
+
+    // Large values push older entries out more eagerly
+    while (this.maxBytes !== null && this.bytes > this.maxBytes && this.tail !== this.head) {
+      this.removeLRU();
+    }
+  }
+
+  /**
+   * Refresh an expired entry in the background
+   */
+  private revalidate(key: string, node: CacheNode<T>, loader: () => Promise<T | null>, options: CacheFetchOptions): void {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+
+    this.refreshing.add(key);
+    this.stats.backgroundRefreshes++;
+    const timestamp = node.timestamp;
+
+    loader()
+      .then((value) => {
+        // Skip the result if the entry was written or removed meanwhile
+        if (this.cache.get(key) !== node || node.timestamp !== timestamp) {
+          return;
+        }
+        this.store(key, value, options);
+      })
+      .catch(() => {
+        this.stats.backgroundRefreshFailures++;
+      })
+      .finally(() => {
+        this.refreshing.delete(key);
+      });
+  }
+
+  /**
+   * Milliseconds since the entry was written
+   */
+  private age(node: CacheNode<T>): number {
+    return Date.now() - node.timestamp;
   }
 
   /**
    * Check if a cache entry has expired
    */
   private isExpired(node: CacheNode<T>): boolean {
-    return Date.now() - node.timestamp > this.ttl;
+    return this.age(node) > node.ttl;
+  }
+
+  /**
+   * Check if an expired entry is no longer usable by any stale window
+   */
+  private isPastRetention(node: CacheNode<T>): boolean {
+    const staleWindow = node.value === null ? 0 : Math.max(this.staleWhileRevalidate, this.staleIfError);
+    return this.age(node) > node.ttl + staleWindow;
   }
 
   /**
@@ -219,9 +678,10 @@ export class LRUCache<T> {
       return;
     }
 
-    const key = this.tail.key;
-    this.removeNode(this.tail);
-    this.cache.delete(key);
+    const node = this.tail;
+    this.removeNode(node);
+    this.cache.delete(node.key);
+    this.bytes -= node.size;
     this.stats.evictions++;
   }
 
@@ -248,24 +708,17 @@ export class LRUCache<T> {
 
     // Find all expired entries
     for (const [key, node] of this.cache.entries()) {
-      if (this.isExpired(node)) {
+      if (this.isPastRetention(node)) {
         keysToRemove.push(key);
       }
     }
 
     // Remove expired entries
     for (const key of keysToRemove) {
-      const node = this.cache.get(key);
-      if (node) {
-        this.removeNode(node);
-        this.cache.delete(key);
+      if (this.removeLocal(key)) {
         this.stats.expirations++;
       }
     }
-
-    if (keysToRemove.length > 0) {
-      // Cache cleanup completed
-    }
   }
 
   /**
@@ -279,11 +732,17 @@ export class LRUCache<T> {
   }
 
   /**
-   * Destructor - clean up resources
+   * Always reachable - the entries are in this process
+   */
+  ping(): void {}
+
+  /**
+   * Destructor - clean up resources. Other instances keep their entries.
    */
   destroy(): void {
     this.stopCleanupTask();
-    this.clear();
+    this.invalidation?.pubSub.unsubscribe(this.invalidation.channel, this.onInvalidation).catch(() => {});
+    this.clearLocal();
   }
 }
 
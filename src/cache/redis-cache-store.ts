@@ -0,0 +1,311 @@
+import { Buffer } from "node:buffer";
+
+import type { RespClient } from "../redis/resp-client.js";
+import type { CacheStore } from "./cache-store.js";
+import type { CacheFetchOptions, CacheLookup, CacheSetOptions, CacheStats } from "./lru-cache.js";
+
+import { scanKeys } from "../redis/scan-keys.js";
+
+/**
+ * Stored form of an entry. A null value is a tombstone.
+ */
+type Envelope<T> = {
+  value: T | null;
+  timestamp: number; // Write time, epoch milliseconds
+  ttl: number; // Time to live in milliseconds
+};
+
+/**
+ * Redis Cache Store Options
+ */
+export type RedisCacheStoreOptions = {
+  prefix: string; // Namespace for this store's keys, e.g. "cache:user:"
+  capacity?: number; // Reported in stats only - the server's maxmemory policy evicts
+  ttlSeconds?: number;
+  staleWhileRevalidateSeconds?: number;
+  staleIfErrorSeconds?: number;
+};
+
+/**
+ * Cache store shared between instances through a Redis-protocol server
+ *
+ * Behaves like LRUCache: entries carry their own TTL, expired entries are kept
+ * for the stale windows (the server-side expiry covers TTL plus window) and
+ * null results can be cached as tombstones. Hit/miss counters are per
+ * instance; size, tombstones and memory usage describe the shared keyspace.
+ * Evictions and expirations happen inside the server and are not counted.
+ */
+export class RedisCacheStore<T> implements CacheStore<T> {
+  private client: RespClient;
+  private prefix: string;
+  private capacity: number;
+  private ttl: number; // Default time to live in milliseconds
+  private staleWhileRevalidate: number; // Milliseconds past the TTL
+  private staleIfError: number; // Milliseconds past the TTL
+  private refreshing: Set<string> = new Set();
+
+  // Statistics
+  private stats = {
+    hits: 0,
+    misses: 0,
+    staleHits: 0,
+    staleIfErrorHits: 0,
+    backgroundRefreshes: 0,
+    backgroundRefreshFailures: 0,
+    negativeHits: 0,
+  };
+
+  constructor(client: RespClient, options: RedisCacheStoreOptions) {
+    this.client = client;
+    this.prefix = options.prefix;
+    this.capacity = options.capacity ?? 0;
+    this.ttl = (options.ttlSeconds ?? 60) * 1000;
+    this.staleWhileRevalidate = (options.staleWhileRevalidateSeconds ?? 0) * 1000;
+    this.staleIfError = (options.staleIfErrorSeconds ?? 0) * 1000;
+  }
+
+  /**
+   * Get value from cache. Tombstones are reported as misses.
+   */
+  async get(key: string): Promise<T | null> {
+    const entry = await this.read(key);
+
+    if (!entry || this.isExpired(entry) || entry.value === null) {
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Look up a key, telling cached "does not exist" results apart from misses
+   */
+  async lookup(key: string): Promise<CacheLookup<T>> {
+    const entry = await this.read(key);
+
+    if (entry && !this.isExpired(entry)) {
+      if (entry.value === null) {
+        this.stats.negativeHits++;
+        return { status: "negative" };
+      }
+      this.stats.hits++;
+      return { status: "hit", value: entry.value };
+    }
+
+    this.stats.misses++;
+    return { status: "miss" };
+  }
+
+  /**
+   * Get value from cache, loading it on a miss - same rules as LRUCache.fetch()
+   */
+  async fetch(key: string, loader: () => Promise<T | null>, options: CacheFetchOptions = {}): Promise<T | null> {
+    const entry = await this.read(key);
+
+    if (entry && !this.isExpired(entry)) {
+      if (entry.value === null) {
+        this.stats.negativeHits++;
+      }
+      else {
+        this.stats.hits++;
+      }
+      return entry.value;
+    }
+
+    if (entry && entry.value !== null && this.age(entry) <= entry.ttl + this.staleWhileRevalidate) {
+      this.stats.staleHits++;
+      this.revalidate(key, entry, loader, options);
+      return entry.value;
+    }
+
+    this.stats.misses++;
+
+    try {
+      const value = await loader();
+      await this.store(key, value, options);
+      return value;
+    }
+    catch (error) {
+      if (entry && entry.value !== null && this.age(entry) <= entry.ttl + this.staleIfError) {
+        this.stats.staleIfErrorHits++;
+        return entry.value;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Set value in cache
+   */
+  async set(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    const ttl = options.ttlSeconds !== undefined ? options.ttlSeconds * 1000 : this.ttl;
+    await this.write(key, value, ttl);
+  }
+
+  /**
+   * Cache a "does not exist" result (tombstone) for a key
+   */
+  async setNegative(key: string, ttlSeconds: number): Promise<void> {
+    await this.write(key, null, ttlSeconds * 1000);
+  }
+
+  /**
+   * Remove a specific key from cache
+   */
+  async remove(key: string): Promise<boolean> {
+    const removed = await this.client.command("DEL", this.prefix + key);
+    return removed === 1;
+  }
+
+  /**
+   * Clear all entries under this store's prefix, for every instance
+   */
+  async clear(): Promise<void> {
+    this.refreshing.clear();
+    for await (const keys of scanKeys(this.client, this.prefix)) {
+      await this.client.command("DEL", ...keys);
+    }
+  }
+
+  /**
+   * Get current cache statistics
+   */
+  async getStats(): Promise<CacheStats> {
+    let size = 0;
+    let tombstones = 0;
+    let memoryUsage = 0;
+
+    for await (const keys of scanKeys(this.client, this.prefix)) {
+      const values = await this.client.command("MGET", ...keys);
+      if (!Array.isArray(values)) {
+        continue;
+      }
+      values.forEach((raw, index) => {
+        if (typeof raw !== "string") {
+          return; // Expired between SCAN and MGET
+        }
+        size++;
+        memoryUsage += Buffer.byteLength(keys[index]) + Buffer.byteLength(raw);
+        if (raw.startsWith("{\"value\":null,")) {
+          tombstones++;
+        }
+      });
+    }
+
+    return {
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      size,
+      capacity: this.capacity,
+      evictions: 0,
+      expirations: 0,
+      staleHits: this.stats.staleHits,
+      staleIfErrorHits: this.stats.staleIfErrorHits,
+      backgroundRefreshes: this.stats.backgroundRefreshes,
+      backgroundRefreshFailures: this.stats.backgroundRefreshFailures,
+      negativeHits: this.stats.negativeHits,
+      tombstones,
+      memoryUsage,
+      maxBytes: null,
+      invalidationsSent: 0, // Every instance reads the same entries
+      invalidationsReceived: 0,
+    };
+  }
+
+  /**
+   * Reset cache statistics
+   */
+  resetStats(): void {
+    this.stats.hits = 0;
+    this.stats.misses = 0;
+    this.stats.staleHits = 0;
+    this.stats.staleIfErrorHits = 0;
+    this.stats.backgroundRefreshes = 0;
+    this.stats.backgroundRefreshFailures = 0;
+    this.stats.negativeHits = 0;
+  }
+
+  /**
+   * Check the server answers
+   */
+  async ping(): Promise<void> {
+    await this.client.command("PING");
+  }
+
+  /**
+   * Stop background work. The shared entries and the connection are left
+   * alone - the connection belongs to whoever created the client.
+   */
+  destroy(): void {
+    this.refreshing.clear();
+  }
+
+  /**
+   * Store a loader result: a value with its TTL, or a tombstone when negative
+   * caching is requested
+   */
+  private async store(key: string, value: T | null, options: CacheFetchOptions): Promise<void> {
+    if (value !== null) {
+      await this.set(key, value, { ttlSeconds: options.ttlSeconds });
+    }
+    else if (options.negativeTtlSeconds !== undefined) {
+      await this.setNegative(key, options.negativeTtlSeconds);
+    }
+    else {
+      await this.remove(key);
+    }
+  }
+
+  /**
+   * Refresh an expired entry in the background (at most one refresh per key
+   * per instance)
+   */
+  private revalidate(key: string, entry: Envelope<T>, loader: () => Promise<T | null>, options: CacheFetchOptions): void {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+
+    this.refreshing.add(key);
+    this.stats.backgroundRefreshes++;
+
+    loader()
+      .then(async (value) => {
+        // Skip the result if the entry was written or removed meanwhile
+        const current = await this.read(key);
+        if (!current || current.timestamp !== entry.timestamp) {
+          return;
+        }
+        await this.store(key, value, options);
+      })
+      .catch(() => {
+        this.stats.backgroundRefreshFailures++;
+      })
+      .finally(() => {
+        this.refreshing.delete(key);
+      });
+  }
+
+  private async read(key: string): Promise<Envelope<T> | null> {
+    const raw = await this.client.command("GET", this.prefix + key);
+    return typeof raw === "string" ? JSON.parse(raw) as Envelope<T> : null;
+  }
+
+  private async write(key: string, value: T | null, ttl: number): Promise<void> {
+    const entry: Envelope<T> = { value, timestamp: Date.now(), ttl };
+    // Keep the entry on the server for as long as a stale window can use it
+    const staleWindow = value === null ? 0 : Math.max(this.staleWhileRevalidate, this.staleIfError);
+    await this.client.command("SET", this.prefix + key, JSON.stringify(entry), "PX", Math.max(1, ttl + staleWindow));
+  }
+
+  private age(entry: Envelope<T>): number {
+    return Date.now() - entry.timestamp;
+  }
+
+  private isExpired(entry: Envelope<T>): boolean {
+    return this.age(entry) > entry.ttl;
+  }
+}
+
+export default RedisCacheStore;
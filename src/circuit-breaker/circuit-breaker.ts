@@ -0,0 +1,242 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling a failing dependency for a while, so callers fail at once
+ * instead of each waiting for the dependency to fail:
+ * - closed: calls go through; `failureThreshold` failures in a row open the circuit
+ * - open: calls are rejected with CircuitOpenError until `resetTimeout` has passed
+ * - half-open: up to `halfOpenMaxCalls` trial calls go through at a time;
+ *   `successThreshold` successes close the circuit and any failure opens it again
+ *
+ * A call that has not settled after `callTimeout` is abandoned and counts as
+ * a failure, so a dependency that hangs is treated like one that fails.
+ */
+
+import { withTimeout } from "../with-timeout.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker configuration
+ */
+export type CircuitBreakerConfig = {
+  failureThreshold: number; // Failures in a row that open the circuit
+  resetTimeout: number; // How long the circuit stays open before trial calls (ms)
+  halfOpenMaxCalls: number; // Trial calls let through at a time while half-open
+  successThreshold: number; // Successful trial calls that close the circuit
+  callTimeout: number; // Time after which a call is abandoned as failed (ms, 0 for no limit)
+  isFailure: (error: Error) => boolean; // Whether an error counts against the dependency (default: every error)
+};
+
+/**
+ * Circuit breaker statistics
+ */
+export type CircuitBreakerStats = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  successes: number;
+  failures: number;
+  rejected: number; // Calls failed fast without reaching the dependency
+  opened: number; // Times the circuit has opened
+  openedAt: string | null; // When the circuit last opened, while it is not closed
+  retryAt: string | null; // When trial calls start, while open
+};
+
+/**
+ * Rejection of a call made while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAfter: number; // Time until trial calls are let through (ms)
+
+  constructor(retryAfter: number) {
+    super("Circuit is open");
+    this.name = "CircuitOpenError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Rejection of a call that took longer than the breaker's call timeout
+ */
+export class CircuitTimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Call timed out after ${timeout}ms`);
+    this.name = "CircuitTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Circuit Breaker Implementation
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  // Trial calls of the current half-open period. Results of trials from an
+  // earlier period arrive too late to count.
+  private halfOpenPeriod = 0;
+  private trialCalls = 0;
+  private trialSuccesses = 0;
+
+  // Statistics
+  private stats = {
+    successes: 0,
+    failures: 0,
+    rejected: 0,
+    opened: 0,
+  };
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = {
+      failureThreshold: config.failureThreshold || 5,
+      resetTimeout: config.resetTimeout || 30_000,
+      halfOpenMaxCalls: config.halfOpenMaxCalls || 1,
+      successThreshold: config.successThreshold || 1,
+      callTimeout: config.callTimeout ?? 10_000,
+      isFailure: config.isFailure ?? (() => true),
+    };
+  }
+
+  /**
+   * Call the dependency through the breaker
+   *
+   * Errors the config does not count as failures (for example "not found")
+   * are passed on and count as successful calls. A call that times out is
+   * rejected with CircuitTimeoutError; its eventual result is ignored.
+   */
+  async execute<R>(operation: () => Promise<R>): Promise<R> {
+    const state = this.getState();
+    if (state === "open" || (state === "half-open" && this.trialCalls >= this.config.halfOpenMaxCalls)) {
+      this.stats.rejected++;
+      throw new CircuitOpenError(this.getRetryAfter());
+    }
+
+    const period = state === "half-open" ? this.halfOpenPeriod : undefined;
+    if (period !== undefined) {
+      this.trialCalls++;
+    }
+
+    try {
+      const result = await withTimeout(operation, this.config.callTimeout, () => new CircuitTimeoutError(this.config.callTimeout));
+      this.recordSuccess(period);
+      return result;
+    }
+    catch (error) {
+      if (this.config.isFailure(error instanceof Error ? error : new Error(String(error)))) {
+        this.recordFailure(period);
+      }
+      else {
+        this.recordSuccess(period);
+      }
+      throw error;
+    }
+    finally {
+      if (period === this.halfOpenPeriod && this.state === "half-open") {
+        this.trialCalls--;
+      }
+    }
+  }
+
+  /**
+   * Current state. An open circuit turns half-open once its reset timeout
+   * has passed.
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.config.resetTimeout) {
+      this.state = "half-open";
+      this.halfOpenPeriod++;
+      this.trialCalls = 0;
+      this.trialSuccesses = 0;
+    }
+    return this.state;
+  }
+
+  /**
+   * Time until trial calls are let through (ms), 0 unless the circuit is open
+   */
+  getRetryAfter(): number {
+    return this.getState() === "open" ? this.openedAt + this.config.resetTimeout - Date.now() : 0;
+  }
+
+  /**
+   * Get circuit breaker statistics
+   */
+  getStats(): CircuitBreakerStats {
+    const state = this.getState();
+
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      successes: this.stats.successes,
+      failures: this.stats.failures,
+      rejected: this.stats.rejected,
+      opened: this.stats.opened,
+      openedAt: state === "closed" ? null : new Date(this.openedAt).toISOString(),
+      retryAt: state === "open" ? new Date(this.openedAt + this.config.resetTimeout).toISOString() : null,
+    };
+  }
+
+  /**
+   * Close the circuit, e.g. once the dependency is known to be back
+   */
+  reset(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+  }
+
+  private recordSuccess(period: number | undefined): void {
+    this.stats.successes++;
+
+    if (period === undefined) {
+      if (this.state === "closed") {
+        this.consecutiveFailures = 0;
+      }
+      return;
+    }
+
+    if (period === this.halfOpenPeriod && this.state === "half-open") {
+      this.trialSuccesses++;
+      if (this.trialSuccesses >= this.config.successThreshold) {
+        this.reset();
+      }
+    }
+  }
+
+  private recordFailure(period: number | undefined): void {
+    this.stats.failures++;
+
+    if (period === undefined) {
+      if (this.state === "closed") {
+        this.consecutiveFailures++;
+        if (this.consecutiveFailures >= this.config.failureThreshold) {
+          this.open();
+        }
+      }
+      return;
+    }
+
+    if (period === this.halfOpenPeriod && this.state === "half-open") {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.state = "open";
+    this.openedAt = Date.now();
+    this.stats.opened++;
+  }
+}
+
+/**
+ * Create a circuit breaker instance
+ */
+export function createCircuitBreaker(config?: Partial<CircuitBreakerConfig>): CircuitBreaker {
+  return new CircuitBreaker(config);
+}
+
+export default CircuitBreaker;
@@ -3,6 +3,22 @@ import { z } from "zod/v4";
 const envSchema = z.object({
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
   PORT: z.coerce.number().default(3000),
+  SHUTDOWN_TIMEOUT_SECONDS: z.coerce.number().int().min(1).default(25),
+  USER_REPOSITORY: z.enum(["memory", "file"]).default("memory"),
+  USER_DATA_FILE: z.string().default("data/users.json"),
+  CACHE_STORE: z.enum(["memory", "redis"]).default("memory"),
+  REDIS_URL: z.string().default("redis://localhost:6379"),
+  CACHE_INVALIDATION: z.enum(["none", "redis"]).default("none"),
+  CACHE_SNAPSHOT_FILE: z.string().optional(),
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().min(1).default(5),
+  CIRCUIT_BREAKER_RESET_SECONDS: z.coerce.number().int().min(1).default(30),
+  RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+  RATE_LIMIT_ALGORITHM: z.enum(["sliding-window", "fixed-window", "token-bucket", "gcra"]).default("sliding-window"),
+  RATE_LIMIT_API_KEYS: z.string().default(""),
+  RATE_LIMIT_LEGACY_HEADERS: z.stringbool().default(true),
+  RATE_LIMIT_IPV6_SUBNET: z.coerce.number().int().min(1).max(128).default(64),
+  TRUST_PROXY: z.string().default(""),
+  ADMIN_API_TOKEN: z.string().min(1).optional(),
 });
 
 try {
@@ -0,0 +1,154 @@
+/**
+ * Stable, machine-readable error codes. Clients should branch on these rather
+ * than on messages, which may change.
+ */
+export const ErrorCode = {
+  BAD_REQUEST: "BAD_REQUEST",
+  VALIDATION_FAILED: "VALIDATION_FAILED",
+  UNAUTHORIZED: "UNAUTHORIZED",
+  FORBIDDEN: "FORBIDDEN",
+  NOT_FOUND: "NOT_FOUND",
+  ROUTE_NOT_FOUND: "ROUTE_NOT_FOUND",
+  RATE_LIMITED: "RATE_LIMITED",
+  INTERNAL_ERROR: "INTERNAL_ERROR",
+  UPSTREAM_FAILURE: "UPSTREAM_FAILURE",
+  SERVICE_UNAVAILABLE: "SERVICE_UNAVAILABLE",
+} as const;
+
+export type ErrorCode = typeof ErrorCode[keyof typeof ErrorCode];
+
+/**
+ * Base class for errors that map to an HTTP response
+ *
+ * `extensions` are extra members merged into the problem details body
+ * (RFC 7807 section 3.2); `headers` are sent with the response.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly title: string;
+  readonly extensions: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    code: ErrorCode,
+    title: string,
+    message: string,
+    options: { cause?: unknown; extensions?: Record<string, unknown>; headers?: Record<string, string> } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.title = title;
+    this.extensions = options.extensions ?? {};
+    this.headers = options.headers ?? {};
+  }
+}
+
+/**
+ * 400 - Request params, query or body failed validation
+ */
+export class ValidationError extends HttpError {
+  readonly errors: ValidationIssue[];
+
+  constructor(errors: ValidationIssue[]) {
+    const fields = errors.map(issue => `${issue.path ? `${issue.location}.${issue.path}` : issue.location}: ${issue.message}`);
+    super(400, ErrorCode.VALIDATION_FAILED, "Validation Failed", `Invalid request: ${fields.join("; ")}`, {
+      extensions: { errors },
+    });
+    this.errors = errors;
+  }
+}
+
+export type ValidationIssue = {
+  location: "params" | "query" | "body";
+  path: string;
+  message: string;
+};
+
+/**
+ * 401 - The request lacks valid credentials
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(message: string) {
+    super(401, ErrorCode.UNAUTHORIZED, "Unauthorized", message, {
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+  }
+}
+
+/**
+ * 403 - The credentials do not allow this request
+ */
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, ErrorCode.FORBIDDEN, "Forbidden", message);
+  }
+}
+
+/**
+ * 404 - The requested resource does not exist
+ */
+export class NotFoundError extends HttpError {
+  constructor(message: string, code: typeof ErrorCode.NOT_FOUND | typeof ErrorCode.ROUTE_NOT_FOUND = ErrorCode.NOT_FOUND) {
+    super(404, code, "Not Found", message);
+  }
+}
+
+/**
+ * 429 - The client exceeded a rate limit
+ */
+export class RateLimitedError extends HttpError {
+  readonly retryAfter: number; // Seconds
+
+  constructor(message: string, retryAfter: number) {
+    super(429, ErrorCode.RATE_LIMITED, "Too Many Requests", message, {
+      extensions: { retryAfter },
+      headers: { "Retry-After": retryAfter.toString() },
+    });
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * 502 - A dependency (such as the user data source) failed
+ */
+export class UpstreamError extends HttpError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(502, ErrorCode.UPSTREAM_FAILURE, "Bad Gateway", message, options);
+  }
+}
+
+/**
+ * 503 - The service cannot handle the request right now
+ */
+export class ServiceUnavailableError extends HttpError {
+  constructor(message: string, options: { cause?: unknown; extensions?: Record<string, unknown>; headers?: Record<string, string> } = {}) {
+    super(503, ErrorCode.SERVICE_UNAVAILABLE, "Service Unavailable", message, options);
+  }
+}
+
+/**
+ * Convert anything thrown into an HttpError
+ *
+ * Errors raised by Express or its middleware (for example a malformed JSON
+ * body) carry their own 4xx `status`; everything else is an internal error.
+ */
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  const status = typeof error === "object" && error !== null && "status" in error && typeof error.status === "number"
+    ? error.status
+    : 500;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status >= 400 && status < 500) {
+    return new HttpError(status, ErrorCode.BAD_REQUEST, "Bad Request", message, { cause: error });
+  }
+
+  return new HttpError(500, ErrorCode.INTERNAL_ERROR, "Internal Server Error", message, { cause: error });
+}
@@ -0,0 +1,13 @@
+export {
+  ErrorCode,
+  ForbiddenError,
+  HttpError,
+  NotFoundError,
+  RateLimitedError,
+  ServiceUnavailableError,
+  toHttpError,
+  UnauthorizedError,
+  UpstreamError,
+  ValidationError,
+} from "./http-error.js";
+export type { ValidationIssue } from "./http-error.js";
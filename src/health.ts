@@ -0,0 +1,72 @@
+import { withTimeout } from "./with-timeout.js";
+
+/**
+ * pass: healthy; warn: degraded but still able to serve; fail: unable to serve
+ */
+export type HealthStatus = "pass" | "warn" | "fail";
+
+/**
+ * Outcome of one check, with any details worth showing an operator
+ */
+export type HealthCheckResult = { status: HealthStatus } & Record<string, unknown>;
+
+export type HealthCheck = () => HealthCheckResult | Promise<HealthCheckResult>;
+
+/**
+ * How a check is run
+ */
+export type HealthCheckOptions = {
+  timeoutMs?: number; // The check fails if it takes longer (default 1000)
+  critical?: boolean; // When false, a failing check only warns (default true)
+};
+
+/**
+ * Outcome of every check. The overall status is the worst of them.
+ */
+export type HealthReport = {
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult & { durationMs: number }>;
+  timestamp: string;
+};
+
+// Overall status of several checks, from best to worst
+const SEVERITY: HealthStatus[] = ["pass", "warn", "fail"];
+
+/**
+ * Health Checks
+ *
+ * Components register checks while the app is assembled, like shutdown
+ * tasks, and the readiness probe runs them all at once. A check that throws
+ * or takes longer than its timeout fails. Checks of dependencies the
+ * instance can serve without are not critical: their failures only warn.
+ */
+export class HealthChecks {
+  private checks: { name: string; check: HealthCheck; timeoutMs: number; critical: boolean }[] = [];
+
+  /**
+   * Register a check
+   */
+  register(name: string, check: HealthCheck, options: HealthCheckOptions = {}): void {
+    this.checks.push({ name, check, timeoutMs: options.timeoutMs ?? 1000, critical: options.critical ?? true });
+  }
+
+  /**
+   * Run every check concurrently
+   */
+  async run(): Promise<HealthReport> {
+    const results = await Promise.all(this.checks.map(async ({ name, check, timeoutMs, critical }) => {
+      const startTime = Date.now();
+      const result = await withTimeout(check, timeoutMs, () => new Error(`Timed out after ${timeoutMs}ms`)).catch((error): HealthCheckResult => ({
+        status: "fail",
+        error: error instanceof Error ? error.message : String(error),
+      }));
+      const status = !critical && result.status === "fail" ? "warn" : result.status;
+      return [name, { ...result, status, durationMs: Date.now() - startTime }] as const;
+    }));
+
+    const status = SEVERITY[Math.max(0, ...results.map(([, result]) => SEVERITY.indexOf(result.status)))];
+    return { status, checks: Object.fromEntries(results), timestamp: new Date().toISOString() };
+  }
+}
+
+export default HealthChecks;
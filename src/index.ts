@@ -1,5 +1,6 @@
-import app from "./app.js";
+import app, { lifecycle } from "./app.js";
 import { env } from "./env.js";
+import { closeServer } from "./lifecycle.js";
 
 const port = env.PORT;
 const server = app.listen(port, () => {
@@ -17,3 +18,27 @@ server.on("error", (err) => {
   }
   process.exit(1);
 });
+
+// Registered last, so it runs first: stop accepting connections and let
+// in-flight requests finish before the queue drains and the app is torn down
+lifecycle.onShutdown("http server", signal => closeServer(server, signal));
+
+// Graceful shutdown: readiness fails at once, then the shutdown tasks run
+// with SHUTDOWN_TIMEOUT_SECONDS to finish. Exits 0 when everything shut down
+// cleanly and 1 when a task failed or ran out of time. A second signal
+// exits straight away.
+async function shutdown(signal: string) {
+  if (lifecycle.getState() !== "running") {
+    console.error(`${signal} received during shutdown, exiting now`);
+    process.exit(1);
+  }
+
+  /* eslint-disable no-console */
+  console.log(`${signal} received, shutting down`);
+  /* eslint-enable no-console */
+  const failed = await lifecycle.shutdown(env.SHUTDOWN_TIMEOUT_SECONDS * 1000);
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
@@ -1,6 +1,19 @@
+import type { ErrorCode } from "../errors/index.js";
 import type MessageResponse from "./message-response.js";
 
+/**
+ * Problem details (RFC 7807) error body, served as application/problem+json.
+ * `message` mirrors `detail` for clients written against the older shape.
+ */
 type ErrorResponse = {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: ErrorCode;
+  requestId: string;
   stack?: string;
+  [extension: string]: unknown;
 } & MessageResponse;
 export default ErrorResponse;
@@ -0,0 +1,9 @@
+import type { User } from "../schemas/user-schemas.js";
+
+type UserBatchResponse = {
+  results: ({ id: number; found: true; user: User } | { id: number; found: false })[];
+  notFound: number[];
+  cacheHits: number; // IDs served from the cache
+  fetched: number; // IDs sent to the data source
+};
+export default UserBatchResponse;
@@ -0,0 +1,6 @@
+import type { UserListPage } from "../repositories/index.js";
+
+type UserListResponse = {
+  limit: number;
+} & UserListPage;
+export default UserListResponse;
@@ -0,0 +1,8 @@
+type UserWarmResponse = {
+  requested: number; // Unique IDs
+  alreadyCached: number; // IDs with a fresh entry or tombstone, left alone
+  warmed: number; // Users loaded into the cache
+  notFound: number[]; // IDs cached as tombstones
+  failed: number[]; // IDs whose load failed after retries
+};
+export default UserWarmResponse;
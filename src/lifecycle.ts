@@ -0,0 +1,109 @@
+import type { Server } from "node:http";
+
+/**
+ * Work to do before the process exits. The signal is aborted once the
+ * shutdown deadline has passed, so waiting tasks know to give up.
+ */
+export type ShutdownTask = (signal: AbortSignal) => void | Promise<void>;
+
+/**
+ * running: serving traffic; shutting-down: shutdown tasks are running;
+ * stopped: every task has run
+ */
+export type LifecycleState = "running" | "shutting-down" | "stopped";
+
+/**
+ * Shutdown Hooks
+ *
+ * Components register cleanup work while the app is assembled; the entry
+ * point runs it on SIGTERM/SIGINT. Tasks run one at a time, most recently
+ * registered first, and a failing task does not stop the others.
+ */
+export class Lifecycle {
+  private tasks: { name: string; task: ShutdownTask }[] = [];
+  private state: LifecycleState = "running";
+
+  /**
+   * Register a task to run on shutdown
+   */
+  onShutdown(name: string, task: ShutdownTask): void {
+    this.tasks.push({ name, task });
+  }
+
+  /**
+   * Current state
+   */
+  getState(): LifecycleState {
+    return this.state;
+  }
+
+  /**
+   * Whether the instance should receive traffic - false from the moment
+   * shutdown starts
+   */
+  isReady(): boolean {
+    return this.state === "running";
+  }
+
+  /**
+   * Run every registered task. Returns the names of the tasks that failed.
+   *
+   * Once `timeoutMs` has passed, the task being waited for is abandoned and
+   * counts as failed. The remaining tasks are still started, with an aborted
+   * signal, so synchronous cleanup always happens.
+   */
+  async shutdown(timeoutMs = Infinity): Promise<string[]> {
+    this.state = "shutting-down";
+
+    const controller = new AbortController();
+    const deadline = Number.isFinite(timeoutMs)
+      ? setTimeout(() => controller.abort(new Error(`Shutdown deadline of ${timeoutMs}ms passed`)), timeoutMs)
+      : undefined;
+    const failed: string[] = [];
+
+    for (const { name, task } of [...this.tasks].reverse()) {
+      try {
+        await untilAborted(task(controller.signal), controller.signal);
+      }
+      catch (error) {
+        console.error(`Shutdown task "${name}" failed:`, error);
+        failed.push(name);
+      }
+    }
+
+    clearTimeout(deadline);
+    this.state = "stopped";
+    return failed;
+  }
+}
+
+// Wait for a task's result, but no longer than until the signal aborts
+function untilAborted(result: void | Promise<void>, signal: AbortSignal): void | Promise<void> {
+  if (!(result instanceof Promise)) {
+    return;
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    result.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Stop accepting connections and wait for in-flight requests to finish.
+ * Idle keep-alive connections are closed straight away, the rest once the
+ * signal aborts.
+ */
+export function closeServer(server: Server, signal: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    server.close(error => error ? reject(error) : resolve());
+    server.closeIdleConnections();
+    signal.addEventListener("abort", () => server.closeAllConnections(), { once: true });
+  });
+}
+
+export default Lifecycle;
@@ -0,0 +1,34 @@
+import type { NextFunction, Request, Response } from "express";
+
+import crypto from "node:crypto";
+
+import { ForbiddenError, UnauthorizedError } from "../errors/index.js";
+
+// Compare digests so the check takes the same time whatever the input
+function matches(candidate: string, token: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(candidate), digest(token));
+}
+
+/**
+ * Admin Authentication Middleware
+ *
+ * Requires `Authorization: Bearer <token>`. Without a configured token the
+ * admin API is disabled and every request is refused.
+ */
+export function requireAdmin(token: string | undefined) {
+  return (req: Pick<Request, "get">, _res: Response, next: NextFunction): void => {
+    if (!token) {
+      next(new ForbiddenError("The admin API is disabled. Set ADMIN_API_TOKEN to enable it."));
+      return;
+    }
+
+    const credentials = /^Bearer (\S+)$/i.exec(req.get("Authorization") ?? "");
+    if (!credentials || !matches(credentials[1], token)) {
+      next(new UnauthorizedError("A valid admin bearer token is required."));
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,117 @@
+import type { RateLimitAlgorithm, RateLimitResult } from "./rate-limit-algorithms.js";
+import type { RateLimitOverride, RateLimitStore } from "./rate-limit-store.js";
+
+type Entry = {
+  state: unknown;
+  expiresAt: number; // When the state stops mattering, epoch milliseconds
+};
+
+/**
+ * In-process rate limit store - limits are per process and reset on restart
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, Entry> = new Map();
+  private overrides: Map<string, RateLimitOverride> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Start cleanup task to remove old entries
+    this.startCleanupTask();
+  }
+
+  consume(key: string, algorithm: RateLimitAlgorithm, now: number, cost = 1): RateLimitResult {
+    const { state, result } = algorithm.consume(this.read(key, now), now, cost);
+    if (result.allowed) {
+      this.entries.set(key, { state, expiresAt: now + algorithm.ttlMs(state, now) });
+    }
+    return result;
+  }
+
+  peek(key: string, algorithm: RateLimitAlgorithm, now: number): RateLimitResult {
+    return algorithm.peek(this.read(key, now), now);
+  }
+
+  reset(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    const now = Date.now();
+    return [...this.entries].filter(([, entry]) => entry.expiresAt > now).map(([key]) => key);
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  setOverride(override: RateLimitOverride): void {
+    this.overrides.set(override.client, override);
+  }
+
+  getOverride(client: string): RateLimitOverride | null {
+    const override = this.overrides.get(client);
+    if (override && override.expiresAt <= Date.now()) {
+      this.overrides.delete(client);
+      return null;
+    }
+    return override ?? null;
+  }
+
+  removeOverride(client: string): boolean {
+    return this.getOverride(client) !== null && this.overrides.delete(client);
+  }
+
+  listOverrides(): RateLimitOverride[] {
+    return [...this.overrides.keys()]
+      .map(client => this.getOverride(client))
+      .filter(override => override !== null);
+  }
+
+  /**
+   * Stop background cleanup task
+   */
+  stopCleanupTask(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  destroy(): void {
+    this.stopCleanupTask();
+    this.entries.clear();
+    this.overrides.clear();
+  }
+
+  private read(key: string, now: number): unknown {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > now ? entry.state : undefined;
+  }
+
+  /**
+   * Start background cleanup task
+   */
+  private startCleanupTask(): void {
+    // Run cleanup every 30 seconds
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(key);
+        }
+      }
+      for (const [client, override] of this.overrides) {
+        if (override.expiresAt <= now) {
+          this.overrides.delete(client);
+        }
+      }
+    }, 30000);
+
+    // Ensure cleanup stops when process exits
+    if (this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+}
+
+export default MemoryRateLimitStore;
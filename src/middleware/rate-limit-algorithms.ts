@@ -0,0 +1,319 @@
+/**
+ * Rate limiting algorithms
+ *
+ * Each algorithm is a pure function of (state, now) so the state can live in
+ * any store. States are plain JSON values. Denied requests never change the
+ * state. A request's cost is the number of units it takes from the limits.
+ */
+
+/**
+ * Limits shared by every algorithm: a sustained rate (maxRequests per
+ * windowMs) and a burst allowance (burstMaxRequests per burstWindowMs)
+ */
+export type RateLimits = {
+  windowMs: number;
+  maxRequests: number;
+  burstWindowMs: number;
+  burstMaxRequests: number;
+};
+
+export type RateLimitAlgorithmName = "sliding-window" | "fixed-window" | "token-bucket" | "gcra";
+
+/**
+ * Outcome of a rate limit check
+ */
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number; // Sustained limit (maxRequests)
+  remaining: number; // Requests left before the sustained limit applies
+  burstLimit: number;
+  burstRemaining: number; // Requests left before the burst limit applies
+  resetMs: number; // Until the full quota is available again
+  burstResetMs: number; // Until the full burst allowance is available again
+  retryAfterMs: number; // Until a denied request would be allowed (0 when allowed)
+  reason?: string; // Why a request was denied
+};
+
+/**
+ * A rate limiting algorithm over state of type S
+ */
+export type RateLimitAlgorithm<S = unknown> = {
+  name: RateLimitAlgorithmName;
+  consume: (state: S | undefined, now: number, cost?: number) => { state: S; result: RateLimitResult };
+  peek: (state: S | undefined, now: number) => RateLimitResult; // Like consume for a one-unit request, without counting it
+  ttlMs: (state: S, now: number) => number; // How long the state still matters; <= 0 means it can be dropped
+};
+
+function burstExceeded(limits: RateLimits): string {
+  return `Burst limit exceeded. Maximum ${limits.burstMaxRequests} requests per ${limits.burstWindowMs / 1000} seconds.`;
+}
+
+function rateExceeded(limits: RateLimits): string {
+  return `Rate limit exceeded. Maximum ${limits.maxRequests} requests per ${limits.windowMs / 1000} seconds.`;
+}
+
+// Result of an allowed request, given the quota left after counting it
+function granted(after: RateLimitResult): RateLimitResult {
+  return { ...after, allowed: true, retryAfterMs: 0, reason: undefined };
+}
+
+type SlidingWindowState = {
+  requests: number[]; // Timestamps inside the main window, oldest first
+  burstRequests: number[]; // Timestamps inside the burst window, oldest first
+};
+
+/**
+ * Dual sliding window - exact, but keeps one timestamp per request, so memory
+ * and time per check grow with the limit
+ */
+function slidingWindow(limits: RateLimits): RateLimitAlgorithm<SlidingWindowState> {
+  const prune = (state: SlidingWindowState | undefined, now: number): SlidingWindowState => ({
+    requests: (state?.requests ?? []).filter(timestamp => now - timestamp < limits.windowMs),
+    burstRequests: (state?.burstRequests ?? []).filter(timestamp => now - timestamp < limits.burstWindowMs),
+  });
+
+  // When enough of the oldest timestamps will have left a window to fit `cost`
+  const freedAt = (timestamps: number[], remaining: number, cost: number, windowMs: number, now: number): number => {
+    const oldest = timestamps[Math.min(cost - remaining, timestamps.length) - 1] ?? now;
+    return oldest + windowMs - now;
+  };
+
+  const check = (window: SlidingWindowState, now: number, cost = 1): RateLimitResult => {
+    const result: RateLimitResult = {
+      allowed: true,
+      limit: limits.maxRequests,
+      remaining: Math.max(0, limits.maxRequests - window.requests.length),
+      burstLimit: limits.burstMaxRequests,
+      burstRemaining: Math.max(0, limits.burstMaxRequests - window.burstRequests.length),
+      resetMs: window.requests.length > 0 ? window.requests[0] + limits.windowMs - now : 0,
+      burstResetMs: window.burstRequests.length > 0 ? window.burstRequests[0] + limits.burstWindowMs - now : 0,
+      retryAfterMs: 0,
+    };
+
+    if (result.burstRemaining < cost) {
+      const retryAfterMs = freedAt(window.burstRequests, result.burstRemaining, cost, limits.burstWindowMs, now);
+      return { ...result, allowed: false, retryAfterMs, reason: burstExceeded(limits) };
+    }
+    if (result.remaining < cost) {
+      const retryAfterMs = freedAt(window.requests, result.remaining, cost, limits.windowMs, now);
+      return { ...result, allowed: false, retryAfterMs, reason: rateExceeded(limits) };
+    }
+    return result;
+  };
+
+  return {
+    name: "sliding-window",
+    consume(state, now, cost = 1) {
+      const window = prune(state, now);
+      const result = check(window, now, cost);
+      if (!result.allowed) {
+        return { state: window, result };
+      }
+
+      for (let i = 0; i < cost; i++) {
+        window.requests.push(now);
+        window.burstRequests.push(now);
+      }
+      return {
+        state: window,
+        result: {
+          ...result,
+          remaining: result.remaining - cost,
+          burstRemaining: result.burstRemaining - cost,
+          resetMs: window.requests[0] + limits.windowMs - now,
+          burstResetMs: window.burstRequests[0] + limits.burstWindowMs - now,
+        },
+      };
+    },
+    peek: (state, now) => check(prune(state, now), now),
+    ttlMs(state, now) {
+      const newest = state.requests.at(-1);
+      return newest === undefined ? 0 : newest + limits.windowMs - now;
+    },
+  };
+}
+
+type FixedWindowState = {
+  windowStart: number;
+  count: number;
+  burstWindowStart: number;
+  burstCount: number;
+};
+
+/**
+ * Dual fixed window - two counters per key. Cheap, but a client can send up
+ * to twice the limit around a window boundary.
+ */
+function fixedWindow(limits: RateLimits): RateLimitAlgorithm<FixedWindowState> {
+  const current = (state: FixedWindowState | undefined, now: number): FixedWindowState => {
+    const windowStart = now - (now % limits.windowMs);
+    const burstWindowStart = now - (now % limits.burstWindowMs);
+    return {
+      windowStart,
+      count: state?.windowStart === windowStart ? state.count : 0,
+      burstWindowStart,
+      burstCount: state?.burstWindowStart === burstWindowStart ? state.burstCount : 0,
+    };
+  };
+
+  const check = (window: FixedWindowState, now: number, cost = 1): RateLimitResult => {
+    const result: RateLimitResult = {
+      allowed: true,
+      limit: limits.maxRequests,
+      remaining: Math.max(0, limits.maxRequests - window.count),
+      burstLimit: limits.burstMaxRequests,
+      burstRemaining: Math.max(0, limits.burstMaxRequests - window.burstCount),
+      resetMs: window.windowStart + limits.windowMs - now,
+      burstResetMs: window.burstWindowStart + limits.burstWindowMs - now,
+      retryAfterMs: 0,
+    };
+
+    if (result.burstRemaining < cost) {
+      return { ...result, allowed: false, retryAfterMs: result.burstResetMs, reason: burstExceeded(limits) };
+    }
+    if (result.remaining < cost) {
+      return { ...result, allowed: false, retryAfterMs: result.resetMs, reason: rateExceeded(limits) };
+    }
+    return result;
+  };
+
+  return {
+    name: "fixed-window",
+    consume(state, now, cost = 1) {
+      const window = current(state, now);
+      const result = check(window, now, cost);
+      if (!result.allowed) {
+        return { state: window, result };
+      }
+
+      window.count += cost;
+      window.burstCount += cost;
+      return { state: window, result: { ...result, remaining: result.remaining - cost, burstRemaining: result.burstRemaining - cost } };
+    },
+    peek: (state, now) => check(current(state, now), now),
+    ttlMs: (state, now) => state.windowStart + limits.windowMs - now,
+  };
+}
+
+type TokenBucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+/**
+ * Token bucket - holds up to burstMaxRequests tokens and refills at
+ * maxRequests per windowMs. A request takes one token per unit of cost.
+ */
+function tokenBucket(limits: RateLimits): RateLimitAlgorithm<TokenBucketState> {
+  const capacity = limits.burstMaxRequests;
+  const refillPerMs = limits.maxRequests / limits.windowMs;
+
+  const refill = (state: TokenBucketState | undefined, now: number): TokenBucketState => ({
+    tokens: state ? Math.min(capacity, state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs) : capacity,
+    updatedAt: now,
+  });
+
+  const check = (bucket: TokenBucketState, cost = 1): RateLimitResult => {
+    const remaining = Math.floor(bucket.tokens);
+    const resetMs = Math.ceil((capacity - bucket.tokens) / refillPerMs);
+    const result: RateLimitResult = {
+      allowed: true,
+      limit: limits.maxRequests,
+      remaining,
+      burstLimit: capacity,
+      burstRemaining: remaining,
+      resetMs, // One bucket serves both limits
+      burstResetMs: resetMs,
+      retryAfterMs: 0,
+    };
+
+    if (bucket.tokens < cost) {
+      return { ...result, allowed: false, retryAfterMs: Math.ceil((cost - bucket.tokens) / refillPerMs), reason: rateExceeded(limits) };
+    }
+    return result;
+  };
+
+  return {
+    name: "token-bucket",
+    consume(state, now, cost = 1) {
+      const bucket = refill(state, now);
+      const result = check(bucket, cost);
+      if (!result.allowed) {
+        return { state: bucket, result };
+      }
+
+      bucket.tokens -= cost;
+      return { state: bucket, result: granted(check(bucket)) };
+    },
+    peek: (state, now) => check(refill(state, now)),
+    ttlMs: (state, now) => Math.ceil((capacity - state.tokens) / refillPerMs) - (now - state.updatedAt),
+  };
+}
+
+type GcraState = {
+  tat: number; // Theoretical arrival time of the next request
+};
+
+/**
+ * GCRA (generic cell rate algorithm) - requests are spaced windowMs /
+ * maxRequests apart, with up to burstMaxRequests allowed back to back.
+ * Equivalent to a token bucket, but the state is a single timestamp.
+ */
+function gcra(limits: RateLimits): RateLimitAlgorithm<GcraState> {
+  const interval = limits.windowMs / limits.maxRequests;
+  const tolerance = interval * limits.burstMaxRequests;
+
+  const check = (tat: number, now: number, cost = 1): RateLimitResult => {
+    const remaining = Math.max(0, Math.floor((now + tolerance - Math.max(tat, now)) / interval));
+    const resetMs = Math.max(0, Math.ceil(tat - now));
+    const result: RateLimitResult = {
+      allowed: true,
+      limit: limits.maxRequests,
+      remaining,
+      burstLimit: limits.burstMaxRequests,
+      burstRemaining: remaining,
+      resetMs, // A single schedule serves both limits
+      burstResetMs: resetMs,
+      retryAfterMs: 0,
+    };
+
+    const allowAt = Math.max(tat, now) + interval * cost - tolerance;
+    if (now < allowAt) {
+      return { ...result, allowed: false, retryAfterMs: Math.ceil(allowAt - now), reason: rateExceeded(limits) };
+    }
+    return result;
+  };
+
+  return {
+    name: "gcra",
+    consume(state, now, cost = 1) {
+      const tat = state?.tat ?? now;
+      const result = check(tat, now, cost);
+      if (!result.allowed) {
+        return { state: { tat }, result };
+      }
+
+      const next = Math.max(tat, now) + interval * cost;
+      return { state: { tat: next }, result: granted(check(next, now)) };
+    },
+    peek: (state, now) => check(state?.tat ?? now, now),
+    ttlMs: (state, now) => state.tat - now,
+  };
+}
+
+/**
+ * Create the named algorithm for the given limits
+ */
+export function createRateLimitAlgorithm(name: RateLimitAlgorithmName, limits: RateLimits): RateLimitAlgorithm {
+  switch (name) {
+    case "fixed-window":
+      return fixedWindow(limits) as RateLimitAlgorithm;
+    case "token-bucket":
+      return tokenBucket(limits) as RateLimitAlgorithm;
+    case "gcra":
+      return gcra(limits) as RateLimitAlgorithm;
+    case "sliding-window":
+    default:
+      return slidingWindow(limits) as RateLimitAlgorithm;
+  }
+}
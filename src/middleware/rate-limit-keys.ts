@@ -0,0 +1,133 @@
+import type { Request } from "express";
+
+import crypto from "node:crypto";
+import net from "node:net";
+
+/**
+ * Rate limit key generators
+ *
+ * A key generator names the client a request is counted against, or returns
+ * undefined when it does not apply to the request (for example no API key was
+ * sent). Generators compose with firstOf() and combine().
+ */
+export type KeyGenerator = (req: KeyRequest) => string | undefined;
+
+/**
+ * The parts of a request a key generator reads. Route handlers with typed
+ * params or bodies can pass their request as it is.
+ */
+export type KeyRequest = Pick<Request, "get" | "ip" | "socket">;
+
+// Expand an IPv6 address into its eight 16-bit groups
+function ipv6Groups(address: string): number[] {
+  let text = address.split("%")[0]; // Drop any zone index
+
+  // Rewrite a trailing dotted IPv4 part as two groups
+  const ipv4 = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (ipv4) {
+    const [a, b, c, d] = ipv4.slice(1).map(Number);
+    text = `${text.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => part ? part.split(":").map(group => Number.parseInt(group, 16)) : [];
+  const left = parse(head);
+  const right = parse(tail);
+  const zeros = tail === undefined ? [] : Array.from<number>({ length: 8 - left.length - right.length }).fill(0);
+  return [...left, ...zeros, ...right];
+}
+
+/**
+ * Group a client address for rate limiting. IPv4-mapped IPv6 addresses count
+ * as plain IPv4; other IPv6 addresses are reduced to their subnet, because a
+ * single host is usually handed a whole /64 and could otherwise rotate
+ * through addresses to dodge its limits.
+ */
+export function ipClientId(address: string, ipv6Subnet = 64): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return mapped[1];
+  }
+  if (!net.isIPv6(address)) {
+    return address;
+  }
+
+  const groups = ipv6Groups(address).map((group, index) => {
+    const bits = Math.min(16, Math.max(0, ipv6Subnet - index * 16));
+    return group & (0xFFFF << (16 - bits)) & 0xFFFF;
+  });
+  const kept = groups.slice(0, Math.ceil(ipv6Subnet / 16)).map(group => group.toString(16));
+  return kept.length === 8 ? kept.join(":") : `${kept.join(":")}::/${ipv6Subnet}`;
+}
+
+/**
+ * Store key for an API key - the key itself never reaches the store
+ */
+export function apiKeyClientId(apiKey: string): string {
+  return `key:${crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * The client's address, as set by Express from the trust proxy setting
+ */
+export function byIp(options: { ipv6Subnet?: number } = {}): KeyGenerator {
+  return req => ipClientId(req.ip || req.socket.remoteAddress || "unknown", options.ipv6Subnet);
+}
+
+/**
+ * The API key in `header`. When `apiKeys` is given, other keys are ignored.
+ */
+export function byApiKey(header = "X-API-Key", apiKeys?: string[]): KeyGenerator {
+  const known = apiKeys && new Set(apiKeys);
+  return (req) => {
+    const apiKey = req.get(header);
+    return apiKey && (!known || known.has(apiKey)) ? apiKeyClientId(apiKey) : undefined;
+  };
+}
+
+/**
+ * The authenticated user's ID. By default it is read from the X-User-Id
+ * header, which an authenticating gateway in front of the API must set.
+ */
+export function byUserId(getUserId: (req: KeyRequest) => string | number | undefined = req => req.get("X-User-Id")): KeyGenerator {
+  return (req) => {
+    const userId = getUserId(req);
+    return userId === undefined || userId === "" ? undefined : `user:${userId}`;
+  };
+}
+
+/**
+ * The value of any request header
+ */
+export function byHeader(name: string): KeyGenerator {
+  return (req) => {
+    const value = req.get(name);
+    return value ? `header:${name.toLowerCase()}:${value}` : undefined;
+  };
+}
+
+/**
+ * The first key that applies, e.g. firstOf(byApiKey(), byIp())
+ */
+export function firstOf(...generators: KeyGenerator[]): KeyGenerator {
+  return (req) => {
+    for (const generator of generators) {
+      const key = generator(req);
+      if (key !== undefined) {
+        return key;
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * One key from all of the given keys, e.g. combine(byUserId(), byIp()) counts
+ * each user separately on every address. Applies only when they all do.
+ */
+export function combine(...generators: KeyGenerator[]): KeyGenerator {
+  return (req) => {
+    const keys = generators.map(generator => generator(req));
+    return keys.every(key => key !== undefined) ? keys.join("|") : undefined;
+  };
+}
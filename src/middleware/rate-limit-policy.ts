@@ -0,0 +1,323 @@
+import type { NextFunction, Request, Response } from "express";
+
+import type { RateLimitAlgorithmName, RateLimits } from "./rate-limit-algorithms.js";
+import type { KeyGenerator, KeyRequest } from "./rate-limit-keys.js";
+import type { RateLimitOverride, RateLimitStore } from "./rate-limit-store.js";
+import type { RateLimiterConfig, RateLimitInfo } from "./rate-limiter.js";
+
+import { RateLimitedError } from "../errors/index.js";
+import { MemoryRateLimitStore } from "./memory-rate-limit-store.js";
+import { apiKeyClientId, byApiKey, byIp, firstOf, ipClientId } from "./rate-limit-keys.js";
+import { RateLimiter } from "./rate-limiter.js";
+
+/**
+ * Limits for each tier. A tier set to null is not rate limited at all.
+ */
+export type TierLimits = Record<string, RateLimits | null>;
+
+/**
+ * A rule picks out requests by method and path and decides how they are
+ * limited. Rules are checked in order and the first match applies; requests
+ * matching no rule use the default budget.
+ */
+export type RateLimitRule = {
+  name: string; // Names the rule's budget when it has its own limits
+  methods?: string[]; // HTTP methods, any when omitted
+  paths?: string[]; // Exact paths relative to the router, any when omitted
+  when?: (req: Request) => boolean; // Further condition on the request
+  limits?: Partial<TierLimits>; // Own budget; tiers left out get their default limits in it
+  keyGenerator?: KeyGenerator; // Counts the own budget per this key instead of the policy's
+  cost?: number; // Units taken from the budget per request (default 1)
+  exempt?: boolean; // Not rate limited
+};
+
+/**
+ * Declarative rate limit policy
+ */
+export type RateLimitPolicy = {
+  tiers: TierLimits; // Must include "anonymous", used for requests without a known API key
+  rules: RateLimitRule[];
+  apiKeys: Record<string, string>; // API key -> tier
+  apiKeyHeader: string;
+  ipv6Subnet: number; // IPv6 clients are grouped by this prefix length
+  keyGenerator?: KeyGenerator; // Defaults to the known API key, else the IP
+};
+
+/**
+ * A client's standing in every budget
+ */
+export type ClientRateLimitInfo = {
+  client: string;
+  tier: string;
+  override: RateLimitOverride | null;
+  budgets: Array<RateLimitInfo & { budget: string }>; // Budgets the client's tier is limited in
+};
+
+export type { RateLimitOverride } from "./rate-limit-store.js";
+
+export const ANONYMOUS_TIER = "anonymous";
+
+const DEFAULT_BUDGET = "default";
+
+/**
+ * Parse API keys in the form "key:tier,key:tier"
+ */
+export function parseApiKeys(value: string): Record<string, string> {
+  const apiKeys: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    const separator = entry.lastIndexOf(":");
+    if (separator > 0) {
+      apiKeys[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+    }
+  }
+  return apiKeys;
+}
+
+type Budget = {
+  limits: Partial<TierLimits>; // Overrides of the tier limits
+  keyGenerator: KeyGenerator;
+};
+
+/**
+ * Rate limiter driven by a RateLimitPolicy
+ *
+ * Each rule with its own limits is a separate budget, so for example cheap
+ * monitoring calls never use up the quota for user lookups. Within a budget
+ * every client is limited by its tier. All budgets share one store.
+ */
+export class PolicyRateLimiter {
+  private policy: RateLimitPolicy;
+  private budgets: Map<string, Budget> = new Map(); // The default budget and one per rule with its own limits
+  private keyGenerator: KeyGenerator;
+  private ipKeyGenerator: KeyGenerator;
+  private algorithm: RateLimitAlgorithmName;
+  private store: RateLimitStore;
+  private legacyHeaders: boolean;
+  private limiters: Map<string, RateLimiter | null> = new Map();
+  private apiKeyTiers: Map<string, string> = new Map(); // Client ID -> tier
+
+  constructor(policy: RateLimitPolicy, options: Pick<RateLimiterConfig, "algorithm" | "store" | "legacyHeaders"> = {}) {
+    if (!(ANONYMOUS_TIER in policy.tiers)) {
+      throw new Error(`Rate limit policy has no "${ANONYMOUS_TIER}" tier`);
+    }
+    for (const [apiKey, tier] of Object.entries(policy.apiKeys)) {
+      if (!(tier in policy.tiers)) {
+        throw new Error(`Rate limit policy has an API key for unknown tier "${tier}"`);
+      }
+      this.apiKeyTiers.set(apiKeyClientId(apiKey), tier);
+    }
+    for (const rule of policy.rules) {
+      if (rule.name.includes(":")) {
+        throw new Error(`Rate limit rule name "${rule.name}" contains ":"`);
+      }
+    }
+
+    this.policy = policy;
+    this.ipKeyGenerator = byIp({ ipv6Subnet: policy.ipv6Subnet });
+    this.keyGenerator = policy.keyGenerator
+      ?? firstOf(byApiKey(policy.apiKeyHeader, Object.keys(policy.apiKeys)), this.ipKeyGenerator);
+    this.budgets.set(DEFAULT_BUDGET, { limits: {}, keyGenerator: this.keyGenerator });
+    for (const rule of policy.rules) {
+      if (rule.limits && !this.budgets.has(rule.name)) {
+        this.budgets.set(rule.name, { limits: rule.limits, keyGenerator: rule.keyGenerator ?? this.keyGenerator });
+      }
+    }
+
+    this.algorithm = options.algorithm || "sliding-window";
+    this.store = options.store || new MemoryRateLimitStore();
+    this.legacyHeaders = options.legacyHeaders ?? true;
+  }
+
+  /**
+   * Tier of the request's API key. Unknown API keys are treated as anonymous.
+   */
+  private tier(req: Request): string {
+    const apiKey = req.get(this.policy.apiKeyHeader);
+    return (apiKey !== undefined && this.apiKeyTiers.get(apiKeyClientId(apiKey))) || ANONYMOUS_TIER;
+  }
+
+  /**
+   * Ban or allowlisting of the client, by its key, its address or the API
+   * key it sent - known to the policy or not. A store failure counts as no
+   * override, like it lets the request through unlimited.
+   */
+  private async overrideFor(req: Request): Promise<RateLimitOverride | null> {
+    const apiKey = req.get(this.policy.apiKeyHeader);
+    const clients = new Set([
+      this.keyGenerator(req),
+      this.ipKeyGenerator(req),
+      apiKey ? apiKeyClientId(apiKey) : undefined,
+    ].filter(client => client !== undefined));
+
+    try {
+      const overrides = await Promise.all([...clients].map(client => this.store.getOverride(client)));
+      return overrides.find(override => override !== null) ?? null;
+    }
+    catch (error) {
+      console.error("Rate limit store unavailable, ignoring overrides:", error);
+      return null;
+    }
+  }
+
+  /**
+   * First rule matching the request
+   */
+  private match(req: Request): RateLimitRule | undefined {
+    return this.policy.rules.find(rule =>
+      (!rule.methods || rule.methods.includes(req.method))
+      && (!rule.paths || rule.paths.includes(req.path))
+      && (!rule.when || rule.when(req)));
+  }
+
+  /**
+   * Limiter for a tier within a budget, or null when the tier is unlimited
+   */
+  private limiter(budget: string, tier: string): RateLimiter | null {
+    const name = `${budget}:${tier}`;
+    if (!this.limiters.has(name)) {
+      const { limits, keyGenerator } = this.budgets.get(budget)!;
+      const tierLimits = limits[tier] === undefined ? this.policy.tiers[tier] : limits[tier];
+      this.limiters.set(name, tierLimits
+        ? new RateLimiter({
+          ...tierLimits,
+          algorithm: this.algorithm,
+          store: this.store,
+          keyGenerator: req => `${budget}:${keyGenerator(req) ?? "unknown"}`,
+          name: budget,
+          legacyHeaders: this.legacyHeaders,
+        })
+        : null);
+    }
+    return this.limiters.get(name) ?? null;
+  }
+
+  /**
+   * Middleware function
+   */
+  middleware() {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const override = await this.overrideFor(req);
+      if (override?.action === "ban") {
+        const message = `Client is temporarily banned${override.reason ? `: ${override.reason}` : ""}.`;
+        next(new RateLimitedError(message, Math.max(1, Math.ceil((override.expiresAt - Date.now()) / 1000))));
+        return;
+      }
+
+      const rule = this.match(req);
+      if (rule?.exempt || override?.action === "allow") {
+        next();
+        return;
+      }
+
+      const limiter = this.limiter(rule?.limits ? rule.name : DEFAULT_BUDGET, this.tier(req));
+      if (!limiter) {
+        next();
+        return;
+      }
+
+      next(await limiter.hit(req, res, rule?.cost ?? 1));
+    };
+  }
+
+  /**
+   * Client a request is counted against by the policy's key generator
+   */
+  clientKey(req: KeyRequest): string {
+    return this.keyGenerator(req) ?? "unknown";
+  }
+
+  /**
+   * Client ID of an IP address or API key, as used by the default key generator
+   */
+  clientId(target: { ip: string } | { apiKey: string }): string {
+    return "apiKey" in target ? apiKeyClientId(target.apiKey) : ipClientId(target.ip, this.policy.ipv6Subnet);
+  }
+
+  /**
+   * Ban or allowlist a client (an IP address or API key client ID) for a
+   * while, on every instance sharing the store
+   */
+  async setOverride(client: string, action: RateLimitOverride["action"], ttlMs: number, reason?: string): Promise<RateLimitOverride> {
+    const override: RateLimitOverride = { client, action, reason, expiresAt: Date.now() + ttlMs };
+    await this.store.setOverride(override);
+    return override;
+  }
+
+  /**
+   * Lift a ban or allowlisting early. Returns false when there was none.
+   */
+  async removeOverride(client: string): Promise<boolean> {
+    return this.store.removeOverride(client);
+  }
+
+  async getOverride(client: string): Promise<RateLimitOverride | null> {
+    return this.store.getOverride(client);
+  }
+
+  async listOverrides(): Promise<RateLimitOverride[]> {
+    return this.store.listOverrides();
+  }
+
+  /**
+   * Current windows of a client in every budget
+   */
+  async inspect(client: string): Promise<ClientRateLimitInfo> {
+    const tier = this.apiKeyTiers.get(client) ?? ANONYMOUS_TIER;
+    const budgets: ClientRateLimitInfo["budgets"] = [];
+    for (const name of this.budgets.keys()) {
+      const limiter = this.limiter(name, tier);
+      if (limiter) {
+        budgets.push({ budget: name, ...await limiter.getRateLimitInfo(`${name}:${client}`) });
+      }
+    }
+    return { client, tier, override: await this.getOverride(client), budgets };
+  }
+
+  /**
+   * Clients closest to their limits, in any budget
+   */
+  async topConsumers(count: number): Promise<ClientRateLimitInfo[]> {
+    const clients = new Set<string>();
+    for (const key of await this.store.keys()) {
+      const separator = key.indexOf(":");
+      if (this.budgets.has(key.slice(0, separator))) {
+        clients.add(key.slice(separator + 1));
+      }
+    }
+
+    // Share of the tighter of the two limits used up, in the busiest budget
+    const usage = (info: ClientRateLimitInfo) => Math.max(0, ...info.budgets.map(budget => Math.max(
+      budget.requestsInWindow / budget.limit,
+      budget.burstRequestsInWindow / budget.burstLimit,
+    )));
+
+    const infos = await Promise.all([...clients].map(client => this.inspect(client)));
+    return infos
+      .filter(info => usage(info) > 0)
+      .sort((a, b) => usage(b) - usage(a))
+      .slice(0, count);
+  }
+
+  /**
+   * Forget everything counted for a client, in every budget
+   */
+  async reset(client: string): Promise<void> {
+    await Promise.all([...this.budgets.keys()].map(budget => this.store.reset(`${budget}:${client}`)));
+  }
+
+  /**
+   * Get current store size (for monitoring)
+   */
+  async getStoreSize(): Promise<number> {
+    return this.store.size();
+  }
+
+  /**
+   * Clean up resources
+   */
+  async destroy(): Promise<void> {
+    await this.store.destroy();
+  }
+}
+
+export default PolicyRateLimiter;
@@ -0,0 +1,54 @@
+import type { RateLimitAlgorithm, RateLimitResult } from "./rate-limit-algorithms.js";
+
+import { env } from "../env.js";
+import { MemoryRateLimitStore } from "./memory-rate-limit-store.js";
+import { RedisRateLimitStore } from "./redis-rate-limit-store.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Temporary exception to the policy for one client
+ */
+export type RateLimitOverride = {
+  client: string;
+  action: "ban" | "allow"; // Deny every request, or skip rate limiting
+  reason?: string;
+  expiresAt: number; // Epoch milliseconds
+};
+
+/**
+ * Rate Limit Store Interface
+ *
+ * Holds the algorithm state for each key. consume() must be atomic per key:
+ * concurrent calls for the same key, from any instance sharing the store,
+ * each see the state left by the previous one.
+ *
+ * Overrides live in the store too, apart from the keys, so a ban or
+ * allowlisting applies on every instance sharing it. Expired overrides are
+ * never returned.
+ */
+export type RateLimitStore = {
+  consume: (key: string, algorithm: RateLimitAlgorithm, now: number, cost?: number) => MaybePromise<RateLimitResult>;
+  peek: (key: string, algorithm: RateLimitAlgorithm, now: number) => MaybePromise<RateLimitResult>;
+  reset: (key: string) => MaybePromise<void>;
+  keys: () => MaybePromise<string[]>; // Keys with state that still matters
+  size: () => MaybePromise<number>; // Keys currently tracked
+  setOverride: (override: RateLimitOverride) => MaybePromise<void>;
+  getOverride: (client: string) => MaybePromise<RateLimitOverride | null>;
+  removeOverride: (client: string) => MaybePromise<boolean>; // False when there was none
+  listOverrides: () => MaybePromise<RateLimitOverride[]>;
+  destroy: () => MaybePromise<void>;
+};
+
+/**
+ * Create the rate limit store selected by RATE_LIMIT_STORE
+ */
+export function createRateLimitStore(config: Pick<typeof env, "RATE_LIMIT_STORE" | "REDIS_URL"> = env): RateLimitStore {
+  switch (config.RATE_LIMIT_STORE) {
+    case "redis":
+      return new RedisRateLimitStore(config.REDIS_URL);
+    case "memory":
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
@@ -1,146 +1,134 @@
 import type { NextFunction, Request, Response } from "express";
 
-/**
- * Rate limit window tracking
- */
-type RateLimitWindow = {
-  requests: number[];
-  burstRequests: number[];
-};
+import type { RateLimitAlgorithm, RateLimitAlgorithmName, RateLimitResult } from "./rate-limit-algorithms.js";
+import type { KeyGenerator } from "./rate-limit-keys.js";
+import type { RateLimitStore } from "./rate-limit-store.js";
+
+import { RateLimitedError } from "../errors/index.js";
+import { MemoryRateLimitStore } from "./memory-rate-limit-store.js";
+import { createRateLimitAlgorithm } from "./rate-limit-algorithms.js";
+import { byIp } from "./rate-limit-keys.js";
 
 /**
  * Rate limiter configuration
  */
-type RateLimiterConfig = {
+export type RateLimiterConfig = {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Max requests per window
   burstWindowMs: number; // Burst window in milliseconds
   burstMaxRequests: number; // Max requests in burst window
-  keyGenerator?: (req: Request) => string; // Function to generate rate limit key
+  algorithm?: RateLimitAlgorithmName; // Defaults to "sliding-window"
+  store?: RateLimitStore; // Defaults to a per-process memory store
+  keyGenerator?: KeyGenerator; // Names the client to count a request against (default: its IP)
+  name?: string; // Names the limits in the RateLimit headers (default "default")
+  legacyHeaders?: boolean; // Also send the X-RateLimit-* headers (default true)
 };
 
+/**
+ * Current window of a key
+ */
+export type RateLimitInfo = {
+  limit: number;
+  burstLimit: number;
+  requestsInWindow: number;
+  burstRequestsInWindow: number;
+  remainingRequests: number;
+  remainingBurstRequests: number;
+  resetMs: number;
+  burstResetMs: number;
+};
+
+// Whole seconds until a point that is `ms` away
+function seconds(ms: number): number {
+  return Math.max(0, Math.ceil(ms / 1000));
+}
+
 /**
  * Sophisticated Rate Limiter with Burst Handling
  *
  * Features:
- * - Sliding window algorithm for accurate rate limiting
+ * - Selectable algorithm: dual sliding window (exact, O(n) per key), fixed
+ *   window, token bucket or GCRA (O(1) per key)
  * - Burst capacity to handle traffic spikes
- * - Per-IP tracking (configurable)
- * - Automatic cleanup of old entries
+ * - Per-IP tracking, with IPv6 grouped by /64 (configurable)
+ * - Pluggable store, so instances can share limits
+ * - RateLimit-Policy and RateLimit headers (draft-ietf-httpapi-ratelimit-headers),
+ *   with the legacy X-RateLimit-* headers kept for existing clients
  */
 export class RateLimiter {
   private config: Required<RateLimiterConfig>;
-  private store: Map<string, RateLimitWindow>;
-  private cleanupInterval: NodeJS.Timeout | null = null;
+  private algorithm: RateLimitAlgorithm;
+  private store: RateLimitStore;
 
   constructor(config: RateLimiterConfig) {
     this.config = {
       ...config,
-      keyGenerator: config.keyGenerator || this.defaultKeyGenerator,
+      algorithm: config.algorithm || "sliding-window",
+      store: config.store || new MemoryRateLimitStore(),
+      keyGenerator: config.keyGenerator || byIp(),
+      name: config.name || "default",
+      legacyHeaders: config.legacyHeaders ?? true,
     };
-    this.store = new Map();
-
-    // Start cleanup task to remove old entries
-    this.startCleanupTask();
+    this.algorithm = createRateLimitAlgorithm(this.config.algorithm, this.config);
+    this.store = this.config.store;
   }
 
   /**
-   * Default key generator - uses IP address
+   * Check a request and count it when allowed. A store failure lets the
+   * request through - an unreachable store should not take the API down.
    */
-  private defaultKeyGenerator(req: Request): string {
-    return req.ip || req.socket.remoteAddress || "unknown";
-  }
-
-  /**
-   * Clean up old request timestamps
-   */
-  private cleanupOldEntries(key: string, now: number): void {
-    const window = this.store.get(key);
-    if (!window) {
-      return;
+  private async consume(key: string, cost: number, now: number): Promise<RateLimitResult | null> {
+    try {
+      return await this.store.consume(key, this.algorithm, now, cost);
     }
-
-    // Remove timestamps older than the main window
-    window.requests = window.requests.filter(
-      timestamp => now - timestamp < this.config.windowMs,
-    );
-
-    // Remove timestamps older than the burst window
-    window.burstRequests = window.burstRequests.filter(
-      timestamp => now - timestamp < this.config.burstWindowMs,
-    );
-
-    // If no requests left, remove the key entirely
-    if (window.requests.length === 0 && window.burstRequests.length === 0) {
-      this.store.delete(key);
+    catch (error) {
+      console.error("Rate limit store unavailable, allowing request:", error);
+      return null;
     }
   }
 
   /**
-   * Check if request is allowed
+   * Count a request of the given cost and set the rate limit headers.
+   * Returns the error to respond with when the request is over the limit.
    */
-  private isAllowed(key: string): { allowed: boolean; retryAfter?: number; reason?: string } {
+  async hit(req: Request, res: Response, cost = 1): Promise<RateLimitedError | undefined> {
+    const key = this.config.keyGenerator(req) ?? "unknown";
     const now = Date.now();
-    let window = this.store.get(key);
-
-    if (!window) {
-      window = {
-        requests: [],
-        burstRequests: [],
-      };
-      this.store.set(key, window);
+    const result = await this.consume(key, cost, now);
+    if (!result) {
+      return undefined;
     }
 
-    // Clean up old entries
-    this.cleanupOldEntries(key, now);
-
-    // Check burst window (10 seconds, 5 requests)
-    const burstRequestsInWindow = window.burstRequests.filter(
-      timestamp => now - timestamp < this.config.burstWindowMs,
-    ).length;
-
-    if (burstRequestsInWindow >= this.config.burstMaxRequests) {
-      const oldestBurstRequest = Math.min(...window.burstRequests);
-      const retryAfter = Math.ceil(
-        (oldestBurstRequest + this.config.burstWindowMs - now) / 1000,
-      );
-      return {
-        allowed: false,
-        retryAfter,
-        reason: `Burst limit exceeded. Maximum ${this.config.burstMaxRequests} requests per ${this.config.burstWindowMs / 1000} seconds.`,
-      };
-    }
-
-    // Check main window (1 minute, 10 requests)
-    const requestsInWindow = window.requests.filter(
-      timestamp => now - timestamp < this.config.windowMs,
-    ).length;
-
-    if (requestsInWindow >= this.config.maxRequests) {
-      const oldestRequest = Math.min(...window.requests);
-      const retryAfter = Math.ceil(
-        (oldestRequest + this.config.windowMs - now) / 1000,
-      );
-      return {
-        allowed: false,
-        retryAfter,
-        reason: `Rate limit exceeded. Maximum ${this.config.maxRequests} requests per ${this.config.windowMs / 1000} seconds.`,
-      };
+    this.setHeaders(res, result, now);
+    if (!result.allowed) {
+      return new RateLimitedError(result.reason || "Too many requests", Math.max(1, seconds(result.retryAfterMs)));
     }
-
-    return { allowed: true };
+    return undefined;
   }
 
   /**
-   * Record a request
+   * Describe the limits and the client's quota in the response headers. The
+   * burst allowance is a second policy named "<name>-burst".
    */
-  private recordRequest(key: string): void {
-    const now = Date.now();
-    const window = this.store.get(key);
-
-    if (window) {
-      window.requests.push(now);
-      window.burstRequests.push(now);
+  private setHeaders(res: Response, result: RateLimitResult, now: number): void {
+    const { name, windowMs, burstWindowMs } = this.config;
+    res.setHeader("RateLimit-Policy", [
+      `"${name}";q=${result.limit};w=${seconds(windowMs)}`,
+      `"${name}-burst";q=${result.burstLimit};w=${seconds(burstWindowMs)}`,
+    ].join(", "));
+    res.setHeader("RateLimit", [
+      `"${name}";r=${result.remaining};t=${seconds(result.resetMs)}`,
+      `"${name}-burst";r=${result.burstRemaining};t=${seconds(result.burstResetMs)}`,
+    ].join(", "));
+
+    if (this.config.legacyHeaders) {
+      // Reset times are Unix timestamps in seconds
+      res.setHeader("X-RateLimit-Limit", result.limit.toString());
+      res.setHeader("X-RateLimit-Remaining", result.remaining.toString());
+      res.setHeader("X-RateLimit-Reset", seconds(now + result.resetMs).toString());
+      res.setHeader("X-RateLimit-Burst-Limit", result.burstLimit.toString());
+      res.setHeader("X-RateLimit-Burst-Remaining", result.burstRemaining.toString());
+      res.setHeader("X-RateLimit-Burst-Reset", seconds(now + result.burstResetMs).toString());
     }
   }
 
@@ -148,118 +136,48 @@ export class RateLimiter {
    * Middleware function
    */
   middleware() {
-    return (req: Request, res: Response, next: NextFunction): void => {
-      const key = this.config.keyGenerator(req);
-      const result = this.isAllowed(key);
-
-      if (!result.allowed) {
-        res.status(429).json({
-          message: result.reason || "Too many requests",
-          retryAfter: result.retryAfter,
-        });
-        return;
-      }
-
-      // Record the request
-      this.recordRequest(key);
-
-      // Add rate limit headers
-      const window = this.store.get(key);
-      if (window) {
-        const now = Date.now();
-        const requestsInWindow = window.requests.filter(
-          timestamp => now - timestamp < this.config.windowMs,
-        ).length;
-        const burstRequestsInWindow = window.burstRequests.filter(
-          timestamp => now - timestamp < this.config.burstWindowMs,
-        ).length;
-
-        res.setHeader("X-RateLimit-Limit", this.config.maxRequests.toString());
-        res.setHeader("X-RateLimit-Remaining", (this.config.maxRequests - requestsInWindow).toString());
-        res.setHeader("X-RateLimit-Burst-Limit", this.config.burstMaxRequests.toString());
-        res.setHeader("X-RateLimit-Burst-Remaining", (this.config.burstMaxRequests - burstRequestsInWindow).toString());
-      }
-
-      next();
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      next(await this.hit(req, res));
     };
   }
 
-  /**
-   * Start background cleanup task
-   */
-  private startCleanupTask(): void {
-    // Run cleanup every 30 seconds
-    this.cleanupInterval = setInterval(() => {
-      const now = Date.now();
-      for (const [key] of this.store.entries()) {
-        this.cleanupOldEntries(key, now);
-      }
-    }, 30000);
-
-    // Ensure cleanup stops when process exits
-    if (this.cleanupInterval.unref) {
-      this.cleanupInterval.unref();
-    }
-  }
-
-  /**
-   * Stop background cleanup task
-   */
-  stopCleanupTask(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-  }
-
   /**
    * Get current store size (for monitoring)
    */
-  getStoreSize(): number {
-    return this.store.size;
+  async getStoreSize(): Promise<number> {
+    return this.store.size();
   }
 
   /**
    * Get rate limit info for a key
    */
-  getRateLimitInfo(key: string): {
-    requestsInWindow: number;
-    burstRequestsInWindow: number;
-    remainingRequests: number;
-    remainingBurstRequests: number;
-  } {
-    const window = this.store.get(key);
-    if (!window) {
-      return {
-        requestsInWindow: 0,
-        burstRequestsInWindow: 0,
-        remainingRequests: this.config.maxRequests,
-        remainingBurstRequests: this.config.burstMaxRequests,
-      };
-    }
-
-    const now = Date.now();
-    const requestsInWindow = window.requests.filter(
-      timestamp => now - timestamp < this.config.windowMs,
-    ).length;
-    const burstRequestsInWindow = window.burstRequests.filter(
-      timestamp => now - timestamp < this.config.burstWindowMs,
-    ).length;
+  async getRateLimitInfo(key: string): Promise<RateLimitInfo> {
+    const result = await this.store.peek(key, this.algorithm, Date.now());
 
     return {
-      requestsInWindow,
-      burstRequestsInWindow,
-      remainingRequests: Math.max(0, this.config.maxRequests - requestsInWindow),
-      remainingBurstRequests: Math.max(0, this.config.burstMaxRequests - burstRequestsInWindow),
+      limit: result.limit,
+      burstLimit: result.burstLimit,
+      requestsInWindow: result.limit - result.remaining,
+      burstRequestsInWindow: result.burstLimit - result.burstRemaining,
+      remainingRequests: result.remaining,
+      remainingBurstRequests: result.burstRemaining,
+      resetMs: result.resetMs,
+      burstResetMs: result.burstResetMs,
     };
   }
 
+  /**
+   * Forget everything counted for a key
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.reset(key);
+  }
+
   /**
    * Clean up resources
    */
-  destroy(): void {
-    this.stopCleanupTask();
-    this.store.clear();
+  async destroy(): Promise<void> {
+    await this.store.destroy();
   }
 }
 
@@ -270,6 +188,7 @@ export class RateLimiter {
  * @param maxRequests - Maximum requests per window
  * @param burstWindowMs - Burst window in milliseconds
  * @param burstMaxRequests - Maximum requests in burst window
+ * @param options - Algorithm, store, key generator and headers
  * @returns Express middleware
  */
 export function createRateLimiter(
@@ -277,12 +196,14 @@ export function createRateLimiter(
   maxRequests: number,
   burstWindowMs: number,
   burstMaxRequests: number,
+  options: Pick<RateLimiterConfig, "algorithm" | "store" | "keyGenerator" | "name" | "legacyHeaders"> = {},
 ) {
   const limiter = new RateLimiter({
     windowMs,
     maxRequests,
     burstWindowMs,
     burstMaxRequests,
+    ...options,
   });
 
   return limiter.middleware();
@@ -0,0 +1,193 @@
+import type { RateLimitAlgorithm, RateLimitResult } from "./rate-limit-algorithms.js";
+import type { RateLimitOverride, RateLimitStore } from "./rate-limit-store.js";
+
+import { RespClient } from "../redis/resp-client.js";
+import { scanKeys } from "../redis/scan-keys.js";
+
+/**
+ * Redis Rate Limit Store Options
+ */
+export type RedisRateLimitStoreOptions = {
+  prefix?: string; // Namespace for this store's keys
+  overridePrefix?: string; // Namespace for overrides - must not overlap `prefix`
+  poolSize?: number; // Connections for concurrent transactions
+  maxAttempts?: number; // Give up on a key after this many conflicting updates
+};
+
+/**
+ * Rate limit store shared by every instance through a Redis-protocol server
+ *
+ * Each update is an optimistic transaction - WATCH the key, read the state,
+ * run the algorithm locally, then write it back in MULTI/EXEC. The server
+ * aborts the EXEC if another instance wrote the key in between, and the
+ * update is retried against the new state. WATCH applies to a whole
+ * connection, so every transaction borrows a connection from a small pool.
+ *
+ * Algorithms use each instance's clock, so instance clocks should agree to
+ * well within the shortest window. Overrides are plain keys that the server
+ * expires with the override.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private url: string;
+  private prefix: string;
+  private overridePrefix: string;
+  private poolSize: number;
+  private maxAttempts: number;
+  private idle: RespClient[] = [];
+  private open = 0;
+  private waiting: ((client: RespClient) => void)[] = [];
+  private reader: RespClient;
+
+  constructor(url: string, options: RedisRateLimitStoreOptions = {}) {
+    this.url = url;
+    this.prefix = options.prefix ?? "ratelimit:";
+    this.overridePrefix = options.overridePrefix ?? "ratelimit-override:";
+    this.poolSize = options.poolSize ?? 4;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.reader = new RespClient(url);
+  }
+
+  async consume(key: string, algorithm: RateLimitAlgorithm, now: number, cost = 1): Promise<RateLimitResult> {
+    const storeKey = this.prefix + key;
+
+    return this.withConnection(async (client) => {
+      for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+        await client.command("WATCH", storeKey);
+        const { state, result } = algorithm.consume(await this.read(client, storeKey), now, cost);
+
+        if (!result.allowed) {
+          await client.command("UNWATCH");
+          return result;
+        }
+
+        const ttlMs = Math.max(1, Math.ceil(algorithm.ttlMs(state, now)));
+        await client.command("MULTI");
+        await client.command("SET", storeKey, JSON.stringify(state), "PX", ttlMs);
+        const committed = await client.command("EXEC");
+        if (committed !== null) {
+          return result;
+        }
+      }
+
+      throw new Error(`Rate limit state for "${key}" kept changing during update`);
+    });
+  }
+
+  async peek(key: string, algorithm: RateLimitAlgorithm, now: number): Promise<RateLimitResult> {
+    return algorithm.peek(await this.read(this.reader, this.prefix + key), now);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.reader.command("DEL", this.prefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    return this.scan(this.prefix);
+  }
+
+  async size(): Promise<number> {
+    return (await this.keys()).length;
+  }
+
+  async setOverride(override: RateLimitOverride): Promise<void> {
+    const ttlMs = Math.max(1, Math.ceil(override.expiresAt - Date.now()));
+    await this.reader.command("SET", this.overridePrefix + override.client, JSON.stringify(override), "PX", ttlMs);
+  }
+
+  async getOverride(client: string): Promise<RateLimitOverride | null> {
+    return this.parseOverride(await this.reader.command("GET", this.overridePrefix + client));
+  }
+
+  async removeOverride(client: string): Promise<boolean> {
+    return await this.reader.command("DEL", this.overridePrefix + client) === 1;
+  }
+
+  async listOverrides(): Promise<RateLimitOverride[]> {
+    const clients = await this.scan(this.overridePrefix);
+    if (clients.length === 0) {
+      return [];
+    }
+
+    const values = await this.reader.command("MGET", ...clients.map(client => this.overridePrefix + client));
+    return (Array.isArray(values) ? values : [])
+      .map(raw => this.parseOverride(raw))
+      .filter(override => override !== null);
+  }
+
+  async destroy(): Promise<void> {
+    const clients = [...this.idle, this.reader];
+    this.idle = [];
+    this.open = 0;
+    await Promise.all(clients.map(client => client.close()));
+  }
+
+  // Names under a prefix, without the prefix
+  private async scan(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const storeKeys of scanKeys(this.reader, prefix)) {
+      keys.push(...storeKeys.map(storeKey => storeKey.slice(prefix.length)));
+    }
+    return keys;
+  }
+
+  // A stored override, unless it is missing or has just expired
+  private parseOverride(raw: unknown): RateLimitOverride | null {
+    if (typeof raw !== "string") {
+      return null;
+    }
+    const override = JSON.parse(raw) as RateLimitOverride;
+    return override.expiresAt > Date.now() ? override : null;
+  }
+
+  private async read(client: RespClient, storeKey: string): Promise<unknown> {
+    const raw = await client.command("GET", storeKey);
+    return typeof raw === "string" ? JSON.parse(raw) : undefined;
+  }
+
+  /**
+   * Run `task` on a pooled connection. A connection whose task failed may be
+   * left mid-transaction, so it is closed instead of returned to the pool.
+   */
+  private async withConnection<R>(task: (client: RespClient) => Promise<R>): Promise<R> {
+    const client = await this.acquire();
+    try {
+      const result = await task(client);
+      this.release(client);
+      return result;
+    }
+    catch (error) {
+      this.open--;
+      client.close().catch(() => {});
+      const next = this.waiting.shift();
+      if (next) {
+        this.open++;
+        next(new RespClient(this.url));
+      }
+      throw error;
+    }
+  }
+
+  private acquire(): Promise<RespClient> {
+    const client = this.idle.pop();
+    if (client) {
+      return Promise.resolve(client);
+    }
+    if (this.open < this.poolSize) {
+      this.open++;
+      return Promise.resolve(new RespClient(this.url));
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(client: RespClient): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(client);
+    }
+    else {
+      this.idle.push(client);
+    }
+  }
+}
+
+export default RedisRateLimitStore;
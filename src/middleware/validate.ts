@@ -0,0 +1,78 @@
+import type { NextFunction, Request, Response } from "express";
+import type { z } from "zod/v4";
+
+import type { ValidationIssue } from "../errors/index.js";
+
+import { ValidationError } from "../errors/index.js";
+
+/**
+ * Schemas for the parts of a request to validate
+ */
+export type RequestSchemas = {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+};
+
+const locations = ["params", "query", "body"] as const;
+
+/**
+ * Request Validation Middleware
+ *
+ * Parses params, query and body against the given Zod schemas and replaces
+ * them with the parsed output, so handlers see coerced values. Every failing
+ * field across all three locations is reported in a single ValidationError.
+ */
+export function validate(schemas: RequestSchemas) {
+  // Only the validated parts are typed, so it can precede handlers that declare the parsed shapes
+  return (req: Pick<Request<unknown, unknown, unknown, unknown>, typeof locations[number]>, _res: Response, next: NextFunction): void => {
+    const issues: ValidationIssue[] = [];
+    const parsed: Partial<Record<typeof locations[number], unknown>> = {};
+
+    for (const location of locations) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[location]);
+      if (result.success) {
+        parsed[location] = result.data;
+        continue;
+      }
+
+      for (const issue of result.error.issues) {
+        issues.push({
+          location,
+          path: issue.path.map(String).join("."),
+          message: issue.message,
+        });
+      }
+    }
+
+    if (issues.length > 0) {
+      next(new ValidationError(issues));
+      return;
+    }
+
+    if ("params" in parsed) {
+      req.params = parsed.params;
+    }
+    if ("body" in parsed) {
+      req.body = parsed.body;
+    }
+    if ("query" in parsed) {
+      // Express 5 exposes req.query as a getter, so shadow it on the request
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+
+    next();
+  };
+}
+
+export default validate;
@@ -1,20 +1,56 @@
 import type { NextFunction, Request, Response } from "express";
 
+import { randomUUID } from "node:crypto";
+
 import type ErrorResponse from "./interfaces/error-response.js";
 
 import { env } from "./env.js";
+import { ErrorCode, NotFoundError, toHttpError } from "./errors/index.js";
+
+// Incoming request IDs are echoed back, so only accept short, printable values
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assign every request an ID - the caller's X-Request-Id when it looks sane,
+ * otherwise a fresh UUID - and return it in the response headers
+ */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get("X-Request-Id");
+  const id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+  res.locals.requestId = id;
+  res.setHeader("X-Request-Id", id);
+  next();
+}
 
 export function notFound(req: Request, res: Response, next: NextFunction) {
-  res.status(404);
-  const error = new Error(`🔍 - Not Found - ${req.originalUrl}`);
-  next(error);
+  next(new NotFoundError(`🔍 - Not Found - ${req.originalUrl}`, ErrorCode.ROUTE_NOT_FOUND));
 }
 
 export function errorHandler(err: Error, req: Request, res: Response<ErrorResponse>, _next: NextFunction) {
-  const statusCode = res.statusCode !== 200 ? res.statusCode : 500;
-  res.status(statusCode);
+  const error = toHttpError(err);
+  const isProduction = env.NODE_ENV === "production";
+
+  // Don't leak internal error messages in production
+  const detail = isProduction && error.status >= 500 && error.code === ErrorCode.INTERNAL_ERROR
+    ? "An unexpected error occurred."
+    : error.message;
+
+  res.status(error.status);
+  for (const [name, value] of Object.entries(error.headers)) {
+    res.setHeader(name, value);
+  }
+  res.type("application/problem+json");
   res.json({
-    message: err.message,
-    stack: env.NODE_ENV === "production" ? "🥞" : err.stack,
+    ...error.extensions,
+    type: `/problems/${error.code.toLowerCase().replaceAll("_", "-")}`,
+    title: error.title,
+    status: error.status,
+    detail,
+    instance: req.originalUrl,
+    code: error.code,
+    requestId: res.locals.requestId,
+    message: detail,
+    ...(isProduction ? {} : { stack: err.stack }),
   });
 }
@@ -0,0 +1,42 @@
+import type { MessageHandler, PubSub } from "./pub-sub.js";
+
+/**
+ * Pub/sub within a single process - share one instance between the
+ * components that should hear each other
+ */
+export class InMemoryPubSub implements PubSub {
+  private channels: Map<string, Set<MessageHandler>> = new Map();
+
+  async publish(channel: string, message: string): Promise<void> {
+    const handlers = [...this.channels.get(channel) ?? []];
+    // Deliver asynchronously, like a network transport would
+    queueMicrotask(() => {
+      for (const handler of handlers) {
+        handler(message, channel);
+      }
+    });
+  }
+
+  async subscribe(channel: string, handler: MessageHandler): Promise<void> {
+    let handlers = this.channels.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.channels.set(channel, handlers);
+    }
+    handlers.add(handler);
+  }
+
+  async unsubscribe(channel: string, handler: MessageHandler): Promise<void> {
+    const handlers = this.channels.get(channel);
+    handlers?.delete(handler);
+    if (handlers?.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.channels.clear();
+  }
+}
+
+export default InMemoryPubSub;
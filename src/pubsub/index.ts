@@ -0,0 +1,22 @@
+import type { PubSub } from "./pub-sub.js";
+
+import { env } from "../env.js";
+import { RespPubSub } from "./resp-pub-sub.js";
+
+export { InMemoryPubSub } from "./in-memory-pub-sub.js";
+export type { MessageHandler, PubSub } from "./pub-sub.js";
+export { RespPubSub } from "./resp-pub-sub.js";
+
+/**
+ * Create the cache invalidation transport selected by CACHE_INVALIDATION, or
+ * null when invalidations stay local
+ */
+export function createInvalidationPubSub(config: Pick<typeof env, "CACHE_INVALIDATION" | "REDIS_URL"> = env): PubSub | null {
+  switch (config.CACHE_INVALIDATION) {
+    case "redis":
+      return new RespPubSub(config.REDIS_URL);
+    case "none":
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Receives a message published to a channel
+ */
+export type MessageHandler = (message: string, channel: string) => void;
+
+/**
+ * Publish/Subscribe Interface
+ *
+ * Messages are delivered to every subscriber of the channel, including
+ * subscribers in the publishing process.
+ */
+export type PubSub = {
+  publish: (channel: string, message: string) => Promise<void>;
+  subscribe: (channel: string, handler: MessageHandler) => Promise<void>;
+  unsubscribe: (channel: string, handler: MessageHandler) => Promise<void>;
+  close: () => Promise<void>;
+};
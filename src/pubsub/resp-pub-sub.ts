@@ -0,0 +1,36 @@
+import type { MessageHandler, PubSub } from "./pub-sub.js";
+
+import { RespClient } from "../redis/resp-client.js";
+
+/**
+ * Pub/sub over a Redis-protocol server (PUBLISH / SUBSCRIBE)
+ *
+ * Uses two connections, since a subscribed connection cannot publish.
+ */
+export class RespPubSub implements PubSub {
+  private publisher: RespClient;
+  private subscriber: RespClient;
+
+  constructor(url: string) {
+    this.publisher = new RespClient(url);
+    this.subscriber = new RespClient(url);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publisher.command("PUBLISH", channel, message);
+  }
+
+  async subscribe(channel: string, handler: MessageHandler): Promise<void> {
+    await this.subscriber.subscribe(channel, handler);
+  }
+
+  async unsubscribe(channel: string, handler: MessageHandler): Promise<void> {
+    await this.subscriber.unsubscribe(channel, handler);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.publisher.close(), this.subscriber.close()]);
+  }
+}
+
+export default RespPubSub;
@@ -3,59 +3,262 @@
  *
  * Features:
  * - Concurrent processing with configurable concurrency
+ * - Priority lanes, served round-robin across tenants within each lane
+ * - Bounded length - jobs beyond maxPending are rejected with QueueFullError
+ * - Per-attempt timeouts and AbortSignal cancellation
  * - Request deduplication (multiple requests for same data share result)
  * - Queue statistics tracking
- * - Error handling and retry mechanism
+ * - Error handling and retries with exponential backoff and jitter
+ * - Dead-letter store of failed jobs, which can be replayed
+ * - drain() resolves as soon as the last job finishes
  * - Non-blocking operation
  */
 
+import { randomUUID } from "node:crypto";
+
+/**
+ * Job priorities, highest first. A lane is only served when every higher
+ * lane is empty.
+ */
+export const QUEUE_PRIORITIES = ["high", "normal", "low"] as const;
+
+export type QueuePriority = typeof QUEUE_PRIORITIES[number];
+
+/**
+ * Per-job options
+ */
+export type EnqueueOptions = {
+  priority?: QueuePriority; // Defaults to "normal"
+  tenant?: string; // Who the job is for - tenants take turns within a lane (default: one shared tenant)
+  timeout?: number; // Max time per attempt (ms, defaults to the queue's timeout)
+  signal?: AbortSignal; // Stop waiting for the result; the job is dropped once no caller waits for it
+};
+
+/**
+ * Rejection of a job that arrived while the queue was full
+ */
+export class QueueFullError extends Error {
+  readonly maxPending: number;
+
+  constructor(maxPending: number) {
+    super(`Queue is full (${maxPending} pending jobs)`);
+    this.name = "QueueFullError";
+    this.maxPending = maxPending;
+  }
+}
+
+/**
+ * Failure of an attempt that ran longer than its timeout. It counts as a
+ * failed attempt, so the job is retried like any other failure.
+ */
+export class QueueTimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(key: string, timeout: number) {
+    super(`Job ${key} timed out after ${timeout}ms`);
+    this.name = "QueueTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Rejection of a caller whose signal was aborted before the job finished
+ */
+export class QueueCancelledError extends Error {
+  constructor(key: string) {
+    super(`Job ${key} was cancelled`);
+    this.name = "QueueCancelledError";
+  }
+}
+
 /**
  * Queue job interface
  */
-interface QueueJob<T> {
+type QueueJob<T> = {
   id: string;
-  task: () => Promise<T>;
+  priority: QueuePriority;
+  tenant: string;
+  task: (signal: AbortSignal) => Promise<T>;
+  promise: Promise<T>;
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   timestamp: number;
+  timeout: number;
   retries: number;
+  errors: Error[]; // Error of each failed attempt
+  waiters: number; // Callers still waiting for the result
+  controller?: AbortController; // Aborts the current attempt
+  invalidated: boolean; // Result went stale while the task was running
+  cancelled: boolean; // Every caller went away
+};
+
+/**
+ * Jobs of one priority. Each tenant has its own line and tenants take turns,
+ * so one busy tenant cannot hold everyone else back.
+ */
+class FairLane<J> {
+  private lines: Map<string, J[]> = new Map(); // In turn order
+  size = 0;
+
+  push(tenant: string, job: J): void {
+    const line = this.lines.get(tenant);
+    if (line) {
+      line.push(job);
+    }
+    else {
+      this.lines.set(tenant, [job]);
+    }
+    this.size++;
+  }
+
+  /**
+   * Put a job back at the head of the lane: its tenant goes next
+   */
+  unshift(tenant: string, job: J): void {
+    const line = this.lines.get(tenant) ?? [];
+    line.unshift(job);
+    this.lines.delete(tenant);
+    this.lines = new Map([[tenant, line], ...this.lines]);
+    this.size++;
+  }
+
+  /**
+   * Take a job out of the lane wherever it is
+   */
+  remove(tenant: string, job: J): boolean {
+    const line = this.lines.get(tenant);
+    const index = line ? line.indexOf(job) : -1;
+    if (!line || index === -1) {
+      return false;
+    }
+
+    line.splice(index, 1);
+    if (line.length === 0) {
+      this.lines.delete(tenant);
+    }
+    this.size--;
+    return true;
+  }
+
+  shift(): J | undefined {
+    const next = this.lines.entries().next();
+    if (next.done) {
+      return undefined;
+    }
+
+    // Serve the first tenant in turn, then send it to the back of the turn order
+    const [tenant, line] = next.value;
+    const job = line.shift();
+    this.lines.delete(tenant);
+    if (line.length > 0) {
+      this.lines.set(tenant, line);
+    }
+    this.size--;
+    return job;
+  }
+
+  clear(): J[] {
+    const jobs = [...this.lines.values()].flat();
+    this.lines.clear();
+    this.size = 0;
+    return jobs;
+  }
 }
 
+/**
+ * A job that failed for good (out of retries, or not worth retrying)
+ */
+export type DeadLetter = {
+  id: string;
+  key: string;
+  priority: QueuePriority;
+  tenant: string;
+  error: { name: string; message: string }; // Error of the last attempt
+  attempts: number;
+  enqueuedAt: string;
+  failedAt: string;
+};
+
+/**
+ * Receives the result of a replayed dead letter - the original callers are
+ * long gone, so this is where the result can be put to use
+ */
+export type ReplayHandler<T> = (key: string, result: T) => void | Promise<void>;
+
+// A dead letter with what it takes to run the job again
+type DeadLetterEntry<T> = {
+  letter: DeadLetter;
+  task: (signal: AbortSignal) => Promise<T>;
+  timeout: number;
+};
+
 /**
  * Queue statistics interface
  */
-export interface QueueStats {
+export type QueueStats = {
   pending: number;
+  pendingByPriority: Record<QueuePriority, number>;
+  rejected: number; // Jobs turned away because the queue was full
+  timedOut: number; // Attempts abandoned after their timeout
+  cancelled: number; // Jobs dropped because every caller went away
+  attempts: number; // Attempts started, retries included
+  failedAttempts: number; // Attempts that threw or timed out
+  retries: number; // Retries scheduled after a failed attempt
+  retrying: number; // Jobs waiting out their backoff delay
+  deadLetters: number; // Failed jobs kept for inspection and replay
   processing: number;
   completed: number;
   failed: number;
   averageProcessingTime: number;
   totalProcessed: number;
-}
+};
 
 /**
  * Queue configuration
  */
-interface QueueConfig {
+export type QueueConfig = {
   concurrency: number; // Max concurrent jobs
   maxRetries: number; // Max retry attempts
-  retryDelay: number; // Delay between retries (ms)
+  retryDelay: number; // Delay before the first retry, doubling for each further retry (ms)
+  maxRetryDelay: number; // Cap on the retry delay (ms)
+  retryJitter: number; // Fraction of each retry delay that is random (0-1), so failed jobs do not retry in lockstep
+  shouldRetry: (error: Error) => boolean; // Whether a failed attempt is worth retrying (default: always)
+  shouldDeadLetter: (errors: Error[]) => boolean; // Whether a failed job is kept, given the error of each attempt (default: always)
   deduplication: boolean; // Enable request deduplication
-}
+  maxPending: number; // Max jobs waiting to start (default unbounded)
+  timeout: number; // Max time per attempt (ms, default unbounded)
+  deadLetterLimit: number; // Failed jobs kept, oldest dropped first (default 100, 0 keeps none)
+};
 
 /**
  * Async Queue Implementation
  */
 export class AsyncQueue<T> {
   private config: QueueConfig;
-  private queue: QueueJob<T>[] = [];
+  private lanes: Record<QueuePriority, FairLane<QueueJob<T>>> = {
+    high: new FairLane(),
+    normal: new FairLane(),
+    low: new FairLane(),
+  };
+
   private processing = 0;
-  private deduplicationMap: Map<string, Promise<T>> = new Map();
+  private activeJobs: Set<QueueJob<T>> = new Set();
+  private backoffTimers: Map<QueueJob<T>, NodeJS.Timeout> = new Map();
+  private deadLetters: Map<string, DeadLetterEntry<T>> = new Map(); // Oldest first
+  private replayHandlers: ReplayHandler<T>[] = [];
+  private idleWaiters: Set<() => void> = new Set(); // Pending drain() calls
+  private deduplicationMap: Map<string, QueueJob<T>> = new Map();
 
   // Statistics
   private stats = {
     completed: 0,
     failed: 0,
+    rejected: 0,
+    timedOut: 0,
+    cancelled: 0,
+    attempts: 0,
+    failedAttempts: 0,
+    retries: 0,
     totalProcessingTime: 0,
   };
 
@@ -64,45 +267,192 @@ export class AsyncQueue<T> {
       concurrency: config.concurrency || 5,
       maxRetries: config.maxRetries || 3,
       retryDelay: config.retryDelay || 1000,
+      maxRetryDelay: config.maxRetryDelay || 30_000,
+      retryJitter: config.retryJitter ?? 0.5,
+      shouldRetry: config.shouldRetry ?? (() => true),
+      shouldDeadLetter: config.shouldDeadLetter ?? (() => true),
       deduplication: config.deduplication !== false,
+      maxPending: config.maxPending ?? Infinity,
+      timeout: config.timeout ?? Infinity,
+      deadLetterLimit: config.deadLetterLimit ?? 100,
     };
   }
 
   /**
    * Add a job to the queue
+   *
+   * A queue shared by several kinds of work can narrow the result type per
+   * call; jobs with the same key must produce the same kind of result. A
+   * duplicate of a queued job keeps the original job's tenant and timeout,
+   * but raises its priority when it asks for a higher one.
+   *
+   * The task receives a signal that is aborted when its attempt times out or
+   * the job is cancelled. Either way the job's concurrency slot is freed
+   * straight away, whether or not the task honours the signal.
    */
-  async enqueue(key: string, task: () => Promise<T>): Promise<T> {
+  async enqueue<R extends T = T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<R>,
+    options: EnqueueOptions = {},
+  ): Promise<R> {
+    if (options.signal?.aborted) {
+      throw new QueueCancelledError(key);
+    }
+
     // Check for duplicate requests (deduplication)
-    if (this.config.deduplication && this.deduplicationMap.has(key)) {
-      return this.deduplicationMap.get(key)!;
+    const duplicate = this.config.deduplication ? this.deduplicationMap.get(key) : undefined;
+    if (duplicate) {
+      if (options.priority) {
+        this.promote(duplicate, options.priority);
+      }
+      return this.wait(duplicate, options.signal) as Promise<R>;
     }
 
-    // Create a promise that will be resolved when the job completes
-    const promise = new Promise<T>((resolve, reject) => {
-      const job: QueueJob<T> = {
-        id: key,
-        task,
-        resolve,
-        reject,
-        timestamp: Date.now(),
-        retries: 0,
-      };
+    if (this.getQueueSize() >= this.config.maxPending) {
+      this.stats.rejected++;
+      throw new QueueFullError(this.config.maxPending);
+    }
 
-      this.queue.push(job);
-      this.processNext();
+    // Create a promise that will be resolved when the job completes
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((resolveJob, rejectJob) => {
+      resolve = resolveJob;
+      reject = rejectJob;
     });
+    const job: QueueJob<T> = {
+      id: key,
+      priority: options.priority ?? "normal",
+      tenant: options.tenant ?? "",
+      task,
+      promise,
+      resolve,
+      reject,
+      timestamp: Date.now(),
+      timeout: options.timeout ?? this.config.timeout,
+      retries: 0,
+      errors: [],
+      waiters: 0,
+      invalidated: false,
+      cancelled: false,
+    };
 
-    // Store promise for deduplication
+    // Store job for deduplication
     if (this.config.deduplication) {
-      this.deduplicationMap.set(key, promise);
+      this.deduplicationMap.set(key, job);
+
+      // Clean up after completion (the caller handles the rejection, so the
+      // cleanup branch must not surface it as unhandled)
+      const cleanup = () => {
+        if (this.deduplicationMap.get(key) === job) {
+          this.deduplicationMap.delete(key);
+        }
+      };
+      promise.then(cleanup, cleanup);
+    }
+
+    const result = this.wait(job, options.signal) as Promise<R>;
+    this.lanes[job.priority].push(job.tenant, job);
+    this.processNext();
+    return result;
+  }
+
+  /**
+   * Raise a job to a higher priority. A job still waiting in its lane moves
+   * to the back of the new lane; a running or retrying job keeps the new
+   * priority for its next attempt.
+   */
+  private promote(job: QueueJob<T>, priority: QueuePriority): void {
+    if (QUEUE_PRIORITIES.indexOf(priority) >= QUEUE_PRIORITIES.indexOf(job.priority)) {
+      return;
+    }
+
+    const queued = this.lanes[job.priority].remove(job.tenant, job);
+    job.priority = priority;
+    if (queued) {
+      this.lanes[priority].push(job.tenant, job);
+    }
+  }
+
+  /**
+   * Wait for a job's result on behalf of one caller. A caller with a signal
+   * stops waiting when it aborts; the job itself is only cancelled when its
+   * last caller has gone.
+   */
+  private wait(job: QueueJob<T>, signal: AbortSignal | undefined): Promise<T> {
+    job.waiters++;
+    if (!signal) {
+      return job.promise;
+    }
 
-      // Clean up after completion
-      promise.finally(() => {
-        this.deduplicationMap.delete(key);
-      });
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new QueueCancelledError(job.id));
+        job.waiters--;
+        if (job.waiters === 0) {
+          this.cancel(job);
+        }
+      };
+      const settle = () => signal.removeEventListener("abort", onAbort);
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      job.promise.then(
+        (value) => {
+          settle();
+          resolve(value);
+        },
+        (error) => {
+          settle();
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Drop a job nobody waits for: take it out of its lane or its backoff, or
+   * abort the running attempt so its slot is freed
+   */
+  private cancel(job: QueueJob<T>): void {
+    if (job.cancelled) {
+      return;
     }
 
-    return promise;
+    const error = new QueueCancelledError(job.id);
+    job.cancelled = true;
+    this.stats.cancelled++;
+    this.lanes[job.priority].remove(job.tenant, job);
+    clearTimeout(this.backoffTimers.get(job));
+    this.backoffTimers.delete(job);
+    job.controller?.abort(error);
+    job.reject(error);
+    this.notifyIfIdle();
+  }
+
+  /**
+   * Run one attempt of a job. The attempt fails with QueueTimeoutError when
+   * it takes too long, and settles as soon as its signal is aborted.
+   */
+  private attempt(job: QueueJob<T>): Promise<T> {
+    const controller = new AbortController();
+    job.controller = controller;
+    this.stats.attempts++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = Number.isFinite(job.timeout)
+        ? setTimeout(() => {
+            this.stats.timedOut++;
+            controller.abort(new QueueTimeoutError(job.id, job.timeout));
+          }, job.timeout)
+        : undefined;
+      controller.signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(controller.signal.reason);
+      }, { once: true });
+
+      const run = async () => job.task(controller.signal);
+      run().then(resolve, reject).finally(() => clearTimeout(timer));
+    });
   }
 
   /**
@@ -110,23 +460,33 @@ export class AsyncQueue<T> {
    */
   private async processNext(): Promise<void> {
     // Check if we can process more jobs
-    if (this.processing >= this.config.concurrency || this.queue.length === 0) {
+    if (this.processing >= this.config.concurrency) {
       return;
     }
 
-    // Get next job
-    const job = this.queue.shift();
+    // Get next job from the highest non-empty lane
+    const lane = QUEUE_PRIORITIES.map(priority => this.lanes[priority]).find(lane => lane.size > 0);
+    const job = lane?.shift();
     if (!job) {
       return;
     }
 
     this.processing++;
+    this.activeJobs.add(job);
 
     try {
       const startTime = Date.now();
 
       // Execute the task
-      const result = await job.task();
+      const result = await this.attempt(job);
+
+      // The data changed while the task was running - run it again so that
+      // every waiter receives the post-invalidation result
+      if (job.invalidated) {
+        job.invalidated = false;
+        this.lanes[job.priority].unshift(job.tenant, job);
+        return;
+      }
 
       // Track processing time
       const processingTime = Date.now() - startTime;
@@ -137,28 +497,158 @@ export class AsyncQueue<T> {
       job.resolve(result);
     }
     catch (error) {
-      // Handle retry logic
-      if (job.retries < this.config.maxRetries) {
-        job.retries++;
+      // A cancelled job has already been rejected
+      if (job.cancelled) {
+        return;
+      }
 
-        // Wait before retry
-        await new Promise(resolve => setTimeout(resolve, this.config.retryDelay));
+      const failure = error instanceof Error ? error : new Error(String(error));
+      this.stats.failedAttempts++;
+      job.errors.push(failure);
 
-        // Re-queue the job
-        this.queue.unshift(job);
+      // Handle retry logic
+      if (job.retries < this.config.maxRetries && this.config.shouldRetry(failure)) {
+        job.retries++;
+        this.scheduleRetry(job);
       }
       else {
-        // Max retries reached - fail the job
+        // Out of retries, or not worth retrying - fail the job
         this.stats.failed++;
-        job.reject(error instanceof Error ? error : new Error(String(error)));
+        this.deadLetter(job, failure);
+        job.reject(failure);
       }
     }
     finally {
+      this.activeJobs.delete(job);
       this.processing--;
 
       // Process next job
       this.processNext();
+      this.notifyIfIdle();
+    }
+  }
+
+  /**
+   * Put a failed job back at the head of its lane once its backoff delay has
+   * passed. The job holds no concurrency slot while it waits.
+   */
+  private scheduleRetry(job: QueueJob<T>): void {
+    const delay = Math.min(this.config.maxRetryDelay, this.config.retryDelay * 2 ** (job.retries - 1));
+    const jittered = delay * (1 - this.config.retryJitter * Math.random());
+
+    this.stats.retries++;
+    this.backoffTimers.set(job, setTimeout(() => {
+      this.backoffTimers.delete(job);
+      this.lanes[job.priority].unshift(job.tenant, job);
+      this.processNext();
+    }, jittered));
+  }
+
+  /**
+   * Keep a failed job in the dead-letter store, making room by dropping the
+   * oldest entries
+   */
+  private deadLetter(job: QueueJob<T>, error: Error): void {
+    if (this.config.deadLetterLimit <= 0 || !this.config.shouldDeadLetter(job.errors)) {
+      return;
+    }
+
+    const letter: DeadLetter = {
+      id: randomUUID(),
+      key: job.id,
+      priority: job.priority,
+      tenant: job.tenant,
+      error: { name: error.name, message: error.message },
+      attempts: job.retries + 1,
+      enqueuedAt: new Date(job.timestamp).toISOString(),
+      failedAt: new Date().toISOString(),
+    };
+    this.deadLetters.set(letter.id, { letter, task: job.task, timeout: job.timeout });
+
+    for (const id of this.deadLetters.keys()) {
+      if (this.deadLetters.size <= this.config.deadLetterLimit) {
+        break;
+      }
+      this.deadLetters.delete(id);
+    }
+  }
+
+  /**
+   * Failed jobs, newest first
+   */
+  getDeadLetters(): DeadLetter[] {
+    return [...this.deadLetters.values()].map(entry => entry.letter).reverse();
+  }
+
+  /**
+   * Get one failed job
+   */
+  getDeadLetter(id: string): DeadLetter | undefined {
+    return this.deadLetters.get(id)?.letter;
+  }
+
+  /**
+   * Run a dead-lettered job again with its original key, priority and
+   * tenant. The entry leaves the store; if the job fails again it is
+   * dead-lettered under a new ID. A successful result is passed to the
+   * replay handlers before the returned promise resolves. Returns undefined
+   * for an unknown ID.
+   */
+  replayDeadLetter(id: string): Promise<T> | undefined {
+    const entry = this.deadLetters.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.deadLetters.delete(id);
+    const { key, priority, tenant } = entry.letter;
+    return this.enqueue(key, entry.task, { priority, tenant, timeout: entry.timeout }).then(async (result) => {
+      await Promise.all(this.replayHandlers.map(handler => handler(key, result)));
+      return result;
+    });
+  }
+
+  /**
+   * Register a handler for the results of replayed dead letters
+   */
+  onReplayed(handler: ReplayHandler<T>): void {
+    this.replayHandlers.push(handler);
+  }
+
+  /**
+   * Drop one dead letter, or all of them without an ID. Returns how many
+   * were dropped.
+   */
+  purgeDeadLetters(id?: string): number {
+    if (id !== undefined) {
+      return this.deadLetters.delete(id) ? 1 : 0;
     }
+
+    const purged = this.deadLetters.size;
+    this.deadLetters.clear();
+    return purged;
+  }
+
+  /**
+   * Invalidate in-flight work for a key
+   *
+   * Jobs that are already running are re-executed when they finish, so callers
+   * sharing a deduplicated promise never receive data read before the
+   * invalidation. Jobs still waiting in the queue have not read anything yet
+   * and are left untouched. Pass a predicate to invalidate a family of keys.
+   */
+  invalidate(key: string | ((key: string) => boolean)): boolean {
+    const matches = typeof key === "string" ? (id: string) => id === key : key;
+    let invalidated = false;
+
+    for (const job of this.activeJobs) {
+      if (matches(job.id)) {
+        job.invalidated = true;
+        invalidated = true;
+      }
+    }
+
+    return invalidated;
   }
 
   /**
@@ -171,7 +661,20 @@ export class AsyncQueue<T> {
       : 0;
 
     return {
-      pending: this.queue.length,
+      pending: this.getQueueSize(),
+      pendingByPriority: {
+        high: this.lanes.high.size,
+        normal: this.lanes.normal.size,
+        low: this.lanes.low.size,
+      },
+      rejected: this.stats.rejected,
+      timedOut: this.stats.timedOut,
+      cancelled: this.stats.cancelled,
+      attempts: this.stats.attempts,
+      failedAttempts: this.stats.failedAttempts,
+      retries: this.stats.retries,
+      retrying: this.backoffTimers.size,
+      deadLetters: this.deadLetters.size,
       processing: this.processing,
       completed: this.stats.completed,
       failed: this.stats.failed,
@@ -184,7 +687,14 @@ export class AsyncQueue<T> {
    * Get current queue size
    */
   getQueueSize(): number {
-    return this.queue.length;
+    return this.lanes.high.size + this.lanes.normal.size + this.lanes.low.size;
+  }
+
+  /**
+   * Get the queue's configuration, defaults included
+   */
+  getConfig(): Readonly<QueueConfig> {
+    return this.config;
   }
 
   /**
@@ -198,20 +708,27 @@ export class AsyncQueue<T> {
    * Check if queue is empty
    */
   isEmpty(): boolean {
-    return this.queue.length === 0 && this.processing === 0;
+    return this.getQueueSize() === 0 && this.processing === 0 && this.backoffTimers.size === 0;
   }
 
   /**
    * Clear all pending jobs
    */
   clear(): void {
-    // Reject all pending jobs
-    for (const job of this.queue) {
+    // Reject all pending jobs, including those waiting to retry
+    for (const priority of QUEUE_PRIORITIES) {
+      for (const job of this.lanes[priority].clear()) {
+        job.reject(new Error("Queue cleared"));
+      }
+    }
+    for (const [job, timer] of this.backoffTimers) {
+      clearTimeout(timer);
       job.reject(new Error("Queue cleared"));
     }
+    this.backoffTimers.clear();
 
-    this.queue = [];
     this.deduplicationMap.clear();
+    this.notifyIfIdle();
   }
 
   /**
@@ -220,15 +737,52 @@ export class AsyncQueue<T> {
   resetStats(): void {
     this.stats.completed = 0;
     this.stats.failed = 0;
+    this.stats.rejected = 0;
+    this.stats.timedOut = 0;
+    this.stats.cancelled = 0;
+    this.stats.attempts = 0;
+    this.stats.failedAttempts = 0;
+    this.stats.retries = 0;
     this.stats.totalProcessingTime = 0;
   }
 
   /**
-   * Wait for all jobs to complete
+   * Wait for all jobs to complete, including those waiting to retry. Rejects
+   * with the signal's reason if it aborts first.
    */
-  async drain(): Promise<void> {
-    while (!this.isEmpty()) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+  async drain(signal?: AbortSignal): Promise<void> {
+    if (this.isEmpty()) {
+      return;
+    }
+    signal?.throwIfAborted();
+
+    await new Promise<void>((resolve, reject) => {
+      const abort = new AbortController(); // Unhooks the listener once idle
+      const onIdle = () => {
+        abort.abort();
+        resolve();
+      };
+
+      this.idleWaiters.add(onIdle);
+      signal?.addEventListener("abort", () => {
+        this.idleWaiters.delete(onIdle);
+        reject(signal.reason);
+      }, { once: true, signal: abort.signal });
+    });
+  }
+
+  /**
+   * Let drain() callers know once the last job has finished
+   */
+  private notifyIfIdle(): void {
+    if (this.idleWaiters.size === 0 || !this.isEmpty()) {
+      return;
+    }
+
+    const waiters = [...this.idleWaiters];
+    this.idleWaiters.clear();
+    for (const onIdle of waiters) {
+      onIdle();
     }
   }
 }
@@ -241,4 +795,3 @@ export function createQueue<T>(config?: Partial<QueueConfig>): AsyncQueue<T> {
 }
 
 export default AsyncQueue;
-
@@ -0,0 +1,294 @@
+import { Buffer } from "node:buffer";
+import net from "node:net";
+
+import type { RespValue } from "./resp.js";
+
+import { encodeCommand, parseResp, RespError } from "./resp.js";
+
+/**
+ * Client options
+ */
+export type RespClientOptions = {
+  commandTimeoutMs?: number; // Reject a command with no reply after this long
+  connectTimeoutMs?: number;
+};
+
+/**
+ * Receives messages published to a subscribed channel
+ */
+export type RespMessageHandler = (message: string, channel: string) => void;
+
+type PendingReply = {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  settled: boolean;
+  timer: NodeJS.Timeout;
+};
+
+/**
+ * Minimal Redis-protocol Client
+ *
+ * Speaks RESP2 over a single pipelined TCP connection. Connects lazily on the
+ * first command and reconnects on the next command after the connection is
+ * lost. Accepts `redis://[:password@]host[:port][/db]` URLs.
+ *
+ * Once subscribe() has been called the connection is in subscriber mode and
+ * should only be used for (un)subscribing. A subscribed client reconnects on
+ * its own and restores its subscriptions.
+ */
+export class RespClient {
+  private host: string;
+  private port: number;
+  private password: string | null;
+  private database: number;
+  private options: Required<RespClientOptions>;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private subscriptions: Map<string, Set<RespMessageHandler>> = new Map();
+  private connectedBefore = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(url: string, options: RespClientOptions = {}) {
+    const parsed = new URL(url);
+    this.host = parsed.hostname || "localhost";
+    this.port = parsed.port ? Number(parsed.port) : 6379;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : null;
+    this.database = parsed.pathname.length > 1 ? Number(parsed.pathname.slice(1)) : 0;
+    this.options = {
+      commandTimeoutMs: options.commandTimeoutMs ?? 5000,
+      connectTimeoutMs: options.connectTimeoutMs ?? 5000,
+    };
+  }
+
+  /**
+   * Send a command and wait for its reply. Error replies reject with RespError.
+   */
+  async command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Subscribe a handler to a channel
+   */
+  async subscribe(channel: string, handler: RespMessageHandler): Promise<void> {
+    const handlers = this.subscriptions.get(channel);
+    if (handlers) {
+      handlers.add(handler);
+      return;
+    }
+
+    this.subscriptions.set(channel, new Set([handler]));
+    try {
+      await this.command("SUBSCRIBE", channel);
+    }
+    catch (error) {
+      this.subscriptions.delete(channel);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a handler, unsubscribing from the channel when it was the last one
+   */
+  async unsubscribe(channel: string, handler: RespMessageHandler): Promise<void> {
+    const handlers = this.subscriptions.get(channel);
+    if (!handlers?.delete(handler) || handlers.size > 0) {
+      return;
+    }
+
+    this.subscriptions.delete(channel);
+    if (this.socket) {
+      await this.command("UNSUBSCRIBE", channel);
+    }
+  }
+
+  /**
+   * Close the connection. Pending commands are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    this.failPending(new Error("Connection closed"));
+    if (socket && !socket.destroyed) {
+      await new Promise<void>((resolve) => {
+        socket.once("close", () => resolve());
+        socket.end();
+      });
+    }
+  }
+
+  private send(socket: net.Socket, args: (string | number)[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const reply: PendingReply = {
+        resolve,
+        reject,
+        settled: false,
+        timer: setTimeout(() => {
+          // Keep the slot so the late reply is still matched to this command
+          reply.settled = true;
+          reject(new Error(`Redis command timed out: ${String(args[0])}`));
+        }, this.options.commandTimeoutMs),
+      };
+      reply.timer.unref();
+      this.pending.push(reply);
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.closed) {
+      return Promise.reject(new Error("Client is closed"));
+    }
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setNoDelay(true);
+      socket.setTimeout(this.options.connectTimeoutMs, () => {
+        socket.destroy(new Error(`Connection to ${this.host}:${this.port} timed out`));
+      });
+
+      socket.once("connect", () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+        this.buffer = Buffer.alloc(0);
+
+        // Authenticate and select the database before anything else is sent
+        if (this.password) {
+          this.send(socket, ["AUTH", this.password]).catch(() => {});
+        }
+        if (this.database) {
+          this.send(socket, ["SELECT", this.database]).catch(() => {});
+        }
+
+        // Restore subscriptions after a reconnect
+        if (this.connectedBefore) {
+          for (const channel of this.subscriptions.keys()) {
+            this.send(socket, ["SUBSCRIBE", channel]).catch(() => {});
+          }
+        }
+        this.connectedBefore = true;
+        resolve(socket);
+      });
+
+      socket.on("data", chunk => this.onData(socket, chunk));
+      socket.once("error", (error) => {
+        if (this.socket !== socket) {
+          reject(error);
+        }
+      });
+      socket.once("close", () => {
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.failPending(new Error("Connection lost"));
+        this.scheduleReconnect();
+      });
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    for (;;) {
+      let parsed: ReturnType<typeof parseResp>;
+      try {
+        parsed = parseResp(this.buffer, offset);
+      }
+      catch (error) {
+        // The rest of the stream cannot be matched to commands any more
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.buffer = Buffer.alloc(0);
+        this.failPending(error instanceof Error ? error : new Error(String(error)));
+        socket.destroy();
+        return;
+      }
+      if (!parsed) {
+        break;
+      }
+      offset = parsed.offset;
+      this.onReply(parsed.value);
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private onReply(value: RespValue): void {
+    // Published messages arrive unrequested
+    if (Array.isArray(value) && value[0] === "message" && this.subscriptions.size > 0) {
+      const [, channel, message] = value;
+      for (const handler of this.subscriptions.get(String(channel)) ?? []) {
+        handler(String(message), String(channel));
+      }
+      return;
+    }
+
+    const reply = this.pending.shift();
+    if (!reply) {
+      return;
+    }
+
+    clearTimeout(reply.timer);
+    if (reply.settled) {
+      return;
+    }
+    reply.settled = true;
+
+    if (value instanceof RespError) {
+      reply.reject(value);
+    }
+    else {
+      reply.resolve(value);
+    }
+  }
+
+  /**
+   * Keep subscribers connected - other clients reconnect on their next command
+   */
+  private scheduleReconnect(): void {
+    if (this.closed || this.subscriptions.size === 0 || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch(() => this.scheduleReconnect());
+    }, 1000);
+    this.reconnectTimer.unref();
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const reply of pending) {
+      clearTimeout(reply.timer);
+      if (!reply.settled) {
+        reply.settled = true;
+        reply.reject(error);
+      }
+    }
+  }
+}
+
+export default RespClient;
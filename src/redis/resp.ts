@@ -0,0 +1,113 @@
+import { Buffer } from "node:buffer";
+
+/**
+ * RESP (REdis Serialization Protocol, version 2) encoding and parsing
+ *
+ * Shared by the client and by anything that needs to speak the protocol from
+ * the server side.
+ */
+
+/**
+ * Error reply sent by the server
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+const CRLF = "\r\n";
+
+export function encodeCommand(args: (string | number)[]): string {
+  return encodeArray(args.map(arg => encodeBulkString(String(arg))));
+}
+
+export function encodeSimpleString(value: string): string {
+  return `+${value}${CRLF}`;
+}
+
+export function encodeError(message: string): string {
+  return `-${message}${CRLF}`;
+}
+
+export function encodeInteger(value: number): string {
+  return `:${value}${CRLF}`;
+}
+
+export function encodeBulkString(value: string | null): string {
+  if (value === null) {
+    return `$-1${CRLF}`;
+  }
+  return `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+}
+
+/**
+ * Encode an array whose elements are already encoded
+ */
+export function encodeArray(elements: string[] | null): string {
+  if (elements === null) {
+    return `*-1${CRLF}`;
+  }
+  return `*${elements.length}${CRLF}${elements.join("")}`;
+}
+
+/**
+ * Parse one value from `buffer` starting at `offset`
+ *
+ * Returns null when the buffer does not hold a complete value yet.
+ */
+export function parseResp(buffer: Buffer, offset = 0): { value: RespValue; offset: number } | null {
+  if (offset >= buffer.length) {
+    return null;
+  }
+
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new RespError(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, offset: next };
+      }
+      const values: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const element = parseResp(buffer, position);
+        if (!element) {
+          return null;
+        }
+        values.push(element.value);
+        position = element.offset;
+      }
+      return { value: values, offset: position };
+    }
+    default:
+      throw new RespError(`Protocol error: unexpected type byte "${type}"`);
+  }
+}
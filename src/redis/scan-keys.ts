@@ -0,0 +1,32 @@
+import type { RespClient } from "./resp-client.js";
+
+// Keys fetched per SCAN round trip
+const SCAN_BATCH_SIZE = 100;
+
+// Escape glob characters so the prefix only matches itself in SCAN MATCH
+function escapePattern(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
+
+/**
+ * Iterate the keys under a prefix in batches, one batch per SCAN round trip.
+ * Keys are yielded in full, prefix included.
+ */
+export async function* scanKeys(client: RespClient, prefix: string): AsyncGenerator<string[]> {
+  const pattern = `${escapePattern(prefix)}*`;
+  let cursor = "0";
+
+  do {
+    const reply = await client.command("SCAN", cursor, "MATCH", pattern, "COUNT", SCAN_BATCH_SIZE);
+    if (!Array.isArray(reply) || typeof reply[0] !== "string" || !Array.isArray(reply[1])) {
+      return;
+    }
+    cursor = reply[0];
+    const keys = reply[1].filter((key): key is string => typeof key === "string");
+    if (keys.length > 0) {
+      yield keys;
+    }
+  } while (cursor !== "0");
+}
+
+export default scanKeys;
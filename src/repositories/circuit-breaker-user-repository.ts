@@ -0,0 +1,21 @@
+import type { CircuitBreaker } from "../circuit-breaker/circuit-breaker.js";
+import type { UserRepository } from "./user-repository.js";
+
+/**
+ * Route every call to a repository through a circuit breaker, so that a
+ * data source which keeps failing is given a rest and callers fail fast with
+ * CircuitOpenError instead of waiting on it
+ */
+export function withCircuitBreaker(repository: UserRepository, breaker: CircuitBreaker): UserRepository {
+  return {
+    findById: id => breaker.execute(() => repository.findById(id)),
+    findByIds: ids => breaker.execute(() => repository.findByIds(ids)),
+    list: query => breaker.execute(() => repository.list(query)),
+    create: input => breaker.execute(() => repository.create(input)),
+    update: (id, changes) => breaker.execute(() => repository.update(id, changes)),
+    delete: id => breaker.execute(() => repository.delete(id)),
+    ping: () => repository.ping(), // Probes must see a recovery while the circuit is open
+  };
+}
+
+export default withCircuitBreaker;
@@ -0,0 +1,62 @@
+import type { User, UserInput, UserListPage, UserListQuery, UserRepository } from "./user-repository.js";
+
+import { listUsers } from "./list-users.js";
+import { seedUsers } from "./user-repository.js";
+
+/**
+ * In-memory User Repository
+ *
+ * Keeps users in a Map for the lifetime of the process.
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users: Map<number, User>;
+  private nextId: number;
+
+  constructor(users: User[] = seedUsers) {
+    this.users = new Map(users.map(user => [user.id, { ...user }]));
+    this.nextId = Math.max(0, ...this.users.keys()) + 1;
+  }
+
+  async findById(id: number): Promise<User | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByIds(ids: number[]): Promise<User[]> {
+    return ids.flatMap((id) => {
+      const user = this.users.get(id);
+      return user ? [{ ...user }] : [];
+    });
+  }
+
+  async list(query: UserListQuery): Promise<UserListPage> {
+    return listUsers([...this.users.values()], query);
+  }
+
+  async create(input: UserInput): Promise<User> {
+    const user: User = { id: this.nextId++, ...input };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async update(id: number, changes: Partial<UserInput>): Promise<User | null> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const user = { ...existing, ...changes };
+    this.users.set(id, user);
+    return { ...user };
+  }
+
+  async delete(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+}
+
+export default InMemoryUserRepository;
@@ -0,0 +1,21 @@
+import type { UserRepository } from "./user-repository.js";
+
+import { env } from "../env.js";
+import { InMemoryUserRepository } from "./in-memory-user-repository.js";
+import { JsonFileUserRepository } from "./json-file-user-repository.js";
+
+export { withCircuitBreaker } from "./circuit-breaker-user-repository.js";
+export type { User, UserInput, UserListPage, UserListQuery, UserRepository } from "./user-repository.js";
+
+/**
+ * Create the user repository selected by USER_REPOSITORY
+ */
+export function createUserRepository(config: Pick<typeof env, "USER_REPOSITORY" | "USER_DATA_FILE"> = env): UserRepository {
+  switch (config.USER_REPOSITORY) {
+    case "file":
+      return new JsonFileUserRepository(config.USER_DATA_FILE);
+    case "memory":
+    default:
+      return new InMemoryUserRepository();
+  }
+}
@@ -0,0 +1,159 @@
+import { constants } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { User, UserInput, UserListPage, UserListQuery, UserRepository } from "./user-repository.js";
+
+import { listUsers } from "./list-users.js";
+import { seedUsers } from "./user-repository.js";
+
+/**
+ * On-disk file layout
+ */
+type UserFile = {
+  nextId: number;
+  users: User[];
+};
+
+/**
+ * JSON File User Repository
+ *
+ * Persists users to a single JSON file. The file is read once on first use and
+ * seeded when missing; every write replaces it atomically (write to a
+ * temporary file, then rename). Writes are serialized so concurrent requests
+ * cannot interleave partial updates.
+ */
+export class JsonFileUserRepository implements UserRepository {
+  private filePath: string;
+  private data: UserFile | null = null;
+  private loading: Promise<UserFile> | null = null;
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async findById(id: number): Promise<User | null> {
+    const data = await this.load();
+    const user = data.users.find(candidate => candidate.id === id);
+    return user ? { ...user } : null;
+  }
+
+  async findByIds(ids: number[]): Promise<User[]> {
+    const data = await this.load();
+    const wanted = new Set(ids);
+    return data.users.filter(user => wanted.has(user.id)).map(user => ({ ...user }));
+  }
+
+  async list(query: UserListQuery): Promise<UserListPage> {
+    const data = await this.load();
+    return listUsers(data.users, query);
+  }
+
+  create(input: UserInput): Promise<User> {
+    return this.write((data) => {
+      const user: User = { id: data.nextId++, ...input };
+      data.users.push(user);
+      return { ...user };
+    });
+  }
+
+  update(id: number, changes: Partial<UserInput>): Promise<User | null> {
+    return this.write((data) => {
+      const index = data.users.findIndex(candidate => candidate.id === id);
+      if (index === -1) {
+        return null;
+      }
+
+      data.users[index] = { ...data.users[index], ...changes };
+      return { ...data.users[index] };
+    });
+  }
+
+  delete(id: number): Promise<boolean> {
+    return this.write((data) => {
+      const index = data.users.findIndex(candidate => candidate.id === id);
+      if (index === -1) {
+        return false;
+      }
+
+      data.users.splice(index, 1);
+      return true;
+    });
+  }
+
+  /**
+   * Check the file is still there to read and replace. Users are served from
+   * memory once loaded, so reads alone would not notice it going away.
+   */
+  async ping(): Promise<void> {
+    await this.load();
+    await fs.access(this.filePath, constants.R_OK | constants.W_OK);
+  }
+
+  /**
+   * Load the file (once), seeding it when it does not exist yet
+   */
+  private load(): Promise<UserFile> {
+    if (this.data) {
+      return Promise.resolve(this.data);
+    }
+
+    if (!this.loading) {
+      this.loading = this.readFile().then((data) => {
+        this.data = data;
+        return data;
+      }).finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async readFile(): Promise<UserFile> {
+    try {
+      const contents = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(contents) as UserFile;
+    }
+    catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+
+      const data: UserFile = {
+        nextId: Math.max(0, ...seedUsers.map(user => user.id)) + 1,
+        users: seedUsers.map(user => ({ ...user })),
+      };
+      await this.persist(data);
+      return data;
+    }
+  }
+
+  /**
+   * Apply a mutation and persist the result, one write at a time
+   */
+  private write<R>(mutate: (data: UserFile) => R): Promise<R> {
+    const result = this.writeChain.then(async () => {
+      const data = await this.load();
+      const snapshot = structuredClone(data);
+      const value = mutate(snapshot);
+      await this.persist(snapshot);
+      this.data = snapshot;
+      return value;
+    });
+
+    // Keep the chain alive even when a write fails
+    this.writeChain = result.catch(() => {});
+    return result;
+  }
+
+  private async persist(data: UserFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+export default JsonFileUserRepository;
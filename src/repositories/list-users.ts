@@ -0,0 +1,50 @@
+import type { User, UserListQuery } from "../schemas/user-schemas.js";
+import type { UserListPage } from "./user-repository.js";
+
+import { encodeUserCursor } from "../schemas/user-schemas.js";
+
+type SortValue = User[keyof User];
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (a < b) {
+    return -1;
+  }
+  return a > b ? 1 : 0;
+}
+
+/**
+ * Filter, sort and paginate a list of users
+ *
+ * Shared by repositories that hold their users in memory. Ties on the sort
+ * field are broken by ID so that cursors address a stable position.
+ */
+export function listUsers(users: User[], query: UserListQuery): UserListPage {
+  const { sort, limit } = query;
+  const direction = query.order === "desc" ? -1 : 1;
+  const name = query.name?.toLowerCase();
+  const email = query.email?.toLowerCase();
+
+  const matching = users
+    .filter(user => !name || user.name.toLowerCase().includes(name))
+    .filter(user => !email || user.email.toLowerCase().includes(email))
+    .sort((a, b) => (compareValues(a[sort], b[sort]) || a.id - b.id) * direction);
+
+  let offset = query.offset ?? 0;
+  const cursor = query.cursor;
+  if (cursor) {
+    const index = matching.findIndex(user =>
+      (compareValues(user[sort], cursor.value) || user.id - cursor.id) * direction > 0);
+    offset = index === -1 ? matching.length : index;
+  }
+
+  const page = matching.slice(offset, offset + limit).map(user => ({ ...user }));
+  const last = page.at(-1);
+  const hasMore = offset + limit < matching.length;
+
+  return {
+    users: page,
+    total: matching.length,
+    offset,
+    nextCursor: hasMore && last ? encodeUserCursor({ sort, value: last[sort], id: last.id }) : null,
+  };
+}
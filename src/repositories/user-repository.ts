@@ -0,0 +1,38 @@
+import type { User, UserInput, UserListQuery } from "../schemas/user-schemas.js";
+
+export type { User, UserInput, UserListQuery } from "../schemas/user-schemas.js";
+
+/**
+ * One page of users
+ */
+export type UserListPage = {
+  users: User[];
+  total: number; // Users matching the filters, across all pages
+  offset: number; // Position of the first user on this page
+  nextCursor: string | null; // Cursor for the following page, if any
+};
+
+/**
+ * User Repository
+ *
+ * Data source behind the user routes. The cache and queue sit in front of
+ * it, so implementations only need to be correct, not fast.
+ */
+export type UserRepository = {
+  findById: (id: number) => Promise<User | null>;
+  findByIds: (ids: number[]) => Promise<User[]>; // Missing IDs are omitted
+  list: (query: UserListQuery) => Promise<UserListPage>;
+  create: (input: UserInput) => Promise<User>;
+  update: (id: number, changes: Partial<UserInput>) => Promise<User | null>;
+  delete: (id: number) => Promise<boolean>;
+  ping: () => Promise<void>; // Rejects when the data source cannot be reached
+};
+
+/**
+ * Users every repository starts with when it has no data of its own
+ */
+export const seedUsers: User[] = [
+  { id: 1, name: "John Doe", email: "john@example.com" },
+  { id: 2, name: "Jane Smith", email: "jane@example.com" },
+  { id: 3, name: "Alice Johnson", email: "alice@example.com" },
+];
@@ -0,0 +1,56 @@
+import net from "node:net";
+import { z } from "zod/v4";
+
+export const MAX_TOP_CONSUMERS = 100;
+
+// One day - overrides are meant to be temporary
+export const MAX_OVERRIDE_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Rate limit client route parameter - an IP address, or "key:<hash>" for an
+ * API key, as listed by GET /admin/rate-limits/clients
+ */
+export const rateLimitClientParamsSchema = z.object({
+  client: z.string().min(1).max(200),
+});
+
+/**
+ * Query of GET /admin/rate-limits/clients
+ */
+export const topConsumersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_TOP_CONSUMERS).default(10),
+});
+
+/**
+ * Body of POST /admin/rate-limits/overrides - bans or allowlists exactly one
+ * IP address or API key for `ttlSeconds`. The parsed body names it as
+ * `target`.
+ */
+export const rateLimitOverrideBodySchema = z.object({
+  ip: z.string().refine(value => net.isIP(value) !== 0, "Invalid IP address.").optional(),
+  apiKey: z.string().min(1).optional(),
+  action: z.enum(["ban", "allow"]),
+  ttlSeconds: z.number().int().min(1).max(MAX_OVERRIDE_TTL_SECONDS).default(60 * 60),
+  reason: z.string().trim().min(1).max(200).optional(),
+}).transform(({ ip, apiKey, ...body }, ctx) => {
+  if (ip !== undefined && apiKey === undefined) {
+    return { ...body, target: { ip } };
+  }
+  if (apiKey !== undefined && ip === undefined) {
+    return { ...body, target: { apiKey } };
+  }
+  ctx.addIssue({ code: "custom", message: "Exactly one of \"ip\" or \"apiKey\" is required." });
+  return z.NEVER;
+});
+
+/**
+ * Dead letter route parameter, as listed by GET /admin/dead-letters
+ */
+export const deadLetterParamsSchema = z.object({
+  id: z.uuid(),
+});
+
+export type RateLimitClientParams = z.infer<typeof rateLimitClientParamsSchema>;
+export type TopConsumersQuery = z.infer<typeof topConsumersQuerySchema>;
+export type RateLimitOverrideBody = z.infer<typeof rateLimitOverrideBodySchema>;
+export type DeadLetterParams = z.infer<typeof deadLetterParamsSchema>;
@@ -0,0 +1,134 @@
+import { Buffer } from "node:buffer";
+import { z } from "zod/v4";
+
+/**
+ * User ID route parameter - digits only, so "12abc" is rejected instead of
+ * being read as 12
+ */
+export const userIdSchema = z
+  .string()
+  .regex(/^\d+$/, "Invalid user ID. Must be a number.")
+  .transform(Number);
+
+export const userParamsSchema = z.object({
+  id: userIdSchema,
+});
+
+/**
+ * User record
+ */
+export const userSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string().trim().min(1, "Name must not be empty."),
+  email: z.email("Invalid email address."),
+});
+
+/**
+ * Body of POST /users and PUT /users/:id
+ */
+export const userInputSchema = userSchema.omit({ id: true });
+
+/**
+ * Body of PATCH /users/:id
+ */
+export const userPatchSchema = userInputSchema
+  .partial()
+  .refine(input => Object.keys(input).length > 0, "At least one of \"name\" or \"email\" is required.");
+
+export type User = z.infer<typeof userSchema>;
+export type UserInput = z.infer<typeof userInputSchema>;
+export type UserParams = z.infer<typeof userParamsSchema>;
+
+/**
+ * Keyset cursor for GET /users - the sort value and ID of the last user on the
+ * previous page, base64url-encoded so clients treat it as opaque
+ */
+const userCursorSchema = z.object({
+  sort: userSchema.keyof(),
+  value: z.union([z.string(), z.number()]),
+  id: z.number(),
+});
+
+export type UserCursor = z.infer<typeof userCursorSchema>;
+
+export function encodeUserCursor(cursor: UserCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeUserCursor(value: string): UserCursor | null {
+  try {
+    const result = userCursorSchema.safeParse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+    return result.success ? result.data : null;
+  }
+  catch {
+    return null;
+  }
+}
+
+/**
+ * Query string of GET /users
+ */
+export const userListQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).optional(),
+    cursor: z.string().transform((value, ctx) => {
+      const cursor = decodeUserCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: "custom", message: "Invalid cursor." });
+        return z.NEVER;
+      }
+      return cursor;
+    }).optional(),
+    name: z.string().trim().min(1).optional(), // Case-insensitive substring
+    email: z.string().trim().min(1).optional(), // Case-insensitive substring
+    sort: userSchema.keyof().default("id"),
+    order: z.enum(["asc", "desc"]).default("asc"),
+  })
+  .refine(query => query.offset === undefined || query.cursor === undefined, {
+    message: "Use either offset or cursor, not both.",
+    path: ["cursor"],
+  })
+  .refine(query => !query.cursor || query.cursor.sort === query.sort, {
+    message: "Cursor does not match the requested sort.",
+    path: ["cursor"],
+  });
+
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+
+/**
+ * Most IDs a single batch lookup may request
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Query string of GET /users?ids=1,2,3
+ */
+export const userBatchQuerySchema = z.object({
+  ids: z
+    .string()
+    .transform(value => value.split(",").map(id => id.trim()))
+    .pipe(z.array(userIdSchema).min(1).max(MAX_BATCH_SIZE)),
+});
+
+/**
+ * Body of POST /users/batch
+ */
+export const userBatchBodySchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_BATCH_SIZE),
+});
+
+export type UserBatchQuery = z.infer<typeof userBatchQuerySchema>;
+export type UserBatchBody = z.infer<typeof userBatchBodySchema>;
+
+export const MAX_WARM_SIZE = 1000;
+
+/**
+ * Body of POST /users/cache/warm
+ */
+export const userWarmBodySchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_WARM_SIZE),
+  concurrency: z.number().int().min(1).max(5).default(2), // Loads in flight at once
+});
+
+export type UserWarmBody = z.infer<typeof userWarmBodySchema>;
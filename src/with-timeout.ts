@@ -0,0 +1,20 @@
+/**
+ * Run an operation, rejecting with the error from `onTimeout` if it has not
+ * settled within `timeoutMs`. The operation itself is not stopped; its late
+ * result is ignored. A timeout of 0 or Infinity means no limit.
+ */
+export function withTimeout<R>(operation: () => R | Promise<R>, timeoutMs: number, onTimeout: () => Error): Promise<R> {
+  if (!(timeoutMs > 0 && Number.isFinite(timeoutMs))) {
+    return Promise.resolve().then(operation);
+  }
+
+  return new Promise<R>((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+    Promise.resolve()
+      .then(operation)
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+export default withTimeout;
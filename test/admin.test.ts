@@ -0,0 +1,226 @@
+import request from "supertest";
+import { describe, expect, it, vi } from "vitest";
+
+import { createApp } from "../src/app.js";
+import { apiKeyClientId } from "../src/middleware/rate-limit-keys.js";
+import { FakeUserRepository } from "./helpers/fake-user-repository.js";
+
+const adminToken = "test-admin-token";
+const auth = { Authorization: `Bearer ${adminToken}` };
+
+function createAdminApp() {
+  return createApp({ adminToken, rateLimit: { policy: { apiKeys: { "partner-key": "standard" } } } });
+}
+
+// The rate limit client ID of the test's own requests
+async function ownClient(app: ReturnType<typeof createApp>): Promise<string> {
+  await request(app).get("/users/1").expect(200);
+  const response = await request(app).get("/admin/rate-limits/clients").set(auth).expect(200);
+  return response.body.clients[0].client;
+}
+
+describe("Admin API", () => {
+  describe("authentication", () => {
+    it("is disabled without a configured token", async () => {
+      const response = await request(createApp({ adminToken: "" })).get("/admin/rate-limits").expect(403);
+      expect(response.body.code).toBe("FORBIDDEN");
+    });
+
+    it("requires the bearer token", async () => {
+      const app = createAdminApp();
+
+      const missing = await request(app).get("/admin/rate-limits").expect(401);
+      expect(missing.body.code).toBe("UNAUTHORIZED");
+      expect(missing.headers["www-authenticate"]).toBe("Bearer");
+
+      await request(app).get("/admin/rate-limits").set("Authorization", "Bearer wrong").expect(401);
+      await request(app).get("/admin/rate-limits").set(auth).expect(200);
+    });
+  });
+
+  describe("inspection", () => {
+    it("lists the top consumers and inspects a client", async () => {
+      const app = createAdminApp();
+      for (let i = 0; i < 3; i++) {
+        await request(app).get("/users/1").expect(200);
+      }
+      await request(app).get("/users/1").set("X-API-Key", "partner-key").expect(200);
+
+      const top = await request(app).get("/admin/rate-limits/clients?limit=5").set(auth).expect(200);
+      expect(top.body.clients).toHaveLength(2);
+      expect(top.body.clients[0].tier).toBe("anonymous");
+      expect(top.body.clients[1]).toMatchObject({ client: apiKeyClientId("partner-key"), tier: "standard" });
+
+      const { client } = top.body.clients[0];
+      const info = await request(app).get(`/admin/rate-limits/clients/${encodeURIComponent(client)}`).set(auth).expect(200);
+      const budget = info.body.budgets.find((entry: { budget: string }) => entry.budget === "default");
+      expect(budget).toMatchObject({ limit: 10, requestsInWindow: 3, remainingBurstRequests: 2 });
+
+      const overview = await request(app).get("/admin/rate-limits").set(auth).expect(200);
+      expect(overview.body).toEqual({ trackedKeys: 2, overrides: 0 });
+    });
+
+    it("resets a client", async () => {
+      const app = createAdminApp();
+      const client = await ownClient(app);
+      for (let i = 0; i < 4; i++) {
+        await request(app).get("/users/1").expect(200);
+      }
+      await request(app).get("/users/1").expect(429);
+
+      await request(app).delete(`/admin/rate-limits/clients/${encodeURIComponent(client)}`).set(auth).expect(204);
+
+      const response = await request(app).get("/users/1").expect(200);
+      expect(response.headers["x-ratelimit-burst-remaining"]).toBe("4");
+    });
+  });
+
+  describe("overrides", () => {
+    it("bans an IP address until the ban is lifted", async () => {
+      const app = createAdminApp();
+      const client = await ownClient(app);
+
+      const ban = await request(app)
+        .post("/admin/rate-limits/overrides")
+        .set(auth)
+        .send({ ip: client, action: "ban", ttlSeconds: 600, reason: "scraping" })
+        .expect(201);
+      expect(ban.body).toMatchObject({ client, action: "ban", reason: "scraping" });
+
+      const denied = await request(app).get("/users/1").expect(429);
+      expect(denied.body.message).toContain("scraping");
+      expect(Number(denied.headers["retry-after"])).toBeGreaterThan(590);
+
+      const list = await request(app).get("/admin/rate-limits/overrides").set(auth).expect(200);
+      expect(list.body.overrides).toHaveLength(1);
+
+      await request(app).delete(`/admin/rate-limits/overrides/${encodeURIComponent(client)}`).set(auth).expect(204);
+      await request(app).delete(`/admin/rate-limits/overrides/${encodeURIComponent(client)}`).set(auth).expect(404);
+      await request(app).get("/users/1").expect(200);
+    });
+
+    it("allowlists an IP address past its limits", async () => {
+      const app = createAdminApp();
+      const client = await ownClient(app);
+
+      await request(app)
+        .post("/admin/rate-limits/overrides")
+        .set(auth)
+        .send({ ip: client, action: "allow" })
+        .expect(201);
+
+      for (let i = 0; i < 10; i++) {
+        await request(app).get("/users/1").expect(200);
+      }
+    });
+
+    it("bans an API key without affecting anonymous requests", async () => {
+      const app = createAdminApp();
+
+      await request(app)
+        .post("/admin/rate-limits/overrides")
+        .set(auth)
+        .send({ apiKey: "partner-key", action: "ban", ttlSeconds: 60 })
+        .expect(201);
+
+      await request(app).get("/users/1").set("X-API-Key", "partner-key").expect(429);
+      await request(app).get("/users/1").expect(200);
+    });
+
+    it("bans an API key that is not configured", async () => {
+      const app = createAdminApp();
+
+      await request(app)
+        .post("/admin/rate-limits/overrides")
+        .set(auth)
+        .send({ apiKey: "unknown-key", action: "ban", ttlSeconds: 60 })
+        .expect(201);
+
+      await request(app).get("/users/1").set("X-API-Key", "unknown-key").expect(429);
+      await request(app).get("/users/1").expect(200);
+    });
+
+    it("validates the override", async () => {
+      const app = createAdminApp();
+
+      await request(app).post("/admin/rate-limits/overrides").set(auth).send({ ip: "not-an-ip", action: "ban" }).expect(400);
+      await request(app).post("/admin/rate-limits/overrides").set(auth).send({ ip: "10.0.0.1", apiKey: "k", action: "ban" }).expect(400);
+      await request(app).post("/admin/rate-limits/overrides").set(auth).send({ action: "ban" }).expect(400);
+      await request(app).post("/admin/rate-limits/overrides").set(auth).send({ ip: "10.0.0.1", action: "ban", ttlSeconds: 0 }).expect(400);
+    });
+  });
+
+  describe("dead letters", () => {
+    // An app whose first read of a user fails for good
+    async function createFailedApp() {
+      const repository = new FakeUserRepository().failNext(2);
+      const app = createApp({ adminToken, userRepository: repository, userQueue: { maxRetries: 1, retryDelay: 1 } });
+      await request(app).get("/users/1").expect(502);
+      return { app, repository };
+    }
+
+    it("lists failed jobs", async () => {
+      const { app } = await createFailedApp();
+
+      const response = await request(app).get("/admin/dead-letters").set(auth).expect(200);
+      expect(response.body.deadLetters).toHaveLength(1);
+      expect(response.body.deadLetters[0]).toMatchObject({
+        key: "user:1",
+        priority: "high",
+        attempts: 2,
+        error: { message: "Repository unavailable" },
+      });
+    });
+
+    it("replays a failed job", async () => {
+      const { app, repository } = await createFailedApp();
+      const { body } = await request(app).get("/admin/dead-letters").set(auth).expect(200);
+      const { id } = body.deadLetters[0];
+
+      const replay = await request(app).post(`/admin/dead-letters/${id}/replay`).set(auth).expect(202);
+      expect(replay.body.replayed.id).toBe(id);
+
+      await vi.waitFor(() => expect(repository.calls.findById).toBe(3));
+      const after = await request(app).get("/admin/dead-letters").set(auth).expect(200);
+      expect(after.body.deadLetters).toEqual([]);
+
+      // The replayed read filled the cache
+      await vi.waitFor(async () => {
+        await request(app).get("/users/1").expect(200);
+        expect(repository.calls.findById).toBe(3);
+      });
+
+      await request(app).post(`/admin/dead-letters/${id}/replay`).set(auth).expect(404);
+      await request(app).post("/admin/dead-letters/not-an-id/replay").set(auth).expect(400);
+    });
+
+    it("leaves out reads the circuit breaker turned away", async () => {
+      const repository = new FakeUserRepository().failNext(Infinity);
+      const app = createApp({
+        adminToken,
+        userRepository: repository,
+        userQueue: { maxRetries: 1, retryDelay: 1 },
+        userCircuitBreaker: { failureThreshold: 1 },
+      });
+
+      await request(app).get("/users/1").expect(503); // Fails, opens the circuit, then is turned away on retry
+      await request(app).get("/users/2").expect(503); // Only ever turned away
+
+      const response = await request(app).get("/admin/dead-letters").set(auth).expect(200);
+      expect(response.body.deadLetters.map((letter: { key: string }) => letter.key)).toEqual(["user:1"]);
+    });
+
+    it("purges failed jobs", async () => {
+      const { app, repository } = await createFailedApp();
+      const { body } = await request(app).get("/admin/dead-letters").set(auth).expect(200);
+
+      await request(app).delete(`/admin/dead-letters/${body.deadLetters[0].id}`).set(auth).expect(204);
+      await request(app).delete(`/admin/dead-letters/${body.deadLetters[0].id}`).set(auth).expect(404);
+
+      repository.failNext(2);
+      await request(app).get("/users/2").expect(502);
+      const purged = await request(app).delete("/admin/dead-letters").set(auth).expect(200);
+      expect(purged.body).toEqual({ purged: 1 });
+    });
+  });
+});
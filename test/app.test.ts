@@ -1,5 +1,5 @@
 import request from "supertest";
-import { describe, it } from "vitest";
+import { describe, expect, it } from "vitest";
 
 import app from "../src/app.js";
 
@@ -12,6 +12,54 @@ describe("app", () => {
       .expect(404));
 });
 
+describe("error responses", () => {
+  it("uses problem details with a stable code and request id", async () => {
+    const response = await request(app)
+      .get("/what-is-this-even")
+      .expect("Content-Type", /application\/problem\+json/)
+      .expect(404);
+
+    expect(response.body).toMatchObject({
+      type: "/problems/route-not-found",
+      title: "Not Found",
+      status: 404,
+      instance: "/what-is-this-even",
+      code: "ROUTE_NOT_FOUND",
+    });
+    expect(response.body.detail).toBe(response.body.message);
+    expect(response.body.requestId).toBe(response.headers["x-request-id"]);
+  });
+
+  it("echoes a valid incoming request id", async () => {
+    const response = await request(app)
+      .get("/what-is-this-even")
+      .set("X-Request-Id", "abc-123")
+      .expect(404);
+
+    expect(response.headers["x-request-id"]).toBe("abc-123");
+    expect(response.body.requestId).toBe("abc-123");
+  });
+
+  it("replaces an unsafe incoming request id", async () => {
+    const response = await request(app)
+      .get("/what-is-this-even")
+      .set("X-Request-Id", "<script>")
+      .expect(404);
+
+    expect(response.body.requestId).not.toBe("<script>");
+  });
+
+  it("reports malformed JSON bodies as bad requests", async () => {
+    const response = await request(app)
+      .post("/users")
+      .set("Content-Type", "application/json")
+      .send("{\"name\":")
+      .expect(400);
+
+    expect(response.body.code).toBe("BAD_REQUEST");
+  });
+});
+
 describe("GET /", () => {
   it("responds with a json message", () =>
     request(app)
@@ -0,0 +1,446 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createQueue, QueueCancelledError, QueueFullError, QueueTimeoutError } from "../src/queue/async-queue.js";
+
+// A queue whose single worker is held busy until release() is called, so
+// the order in which the waiting jobs start can be observed
+function blockedQueue(config: Parameters<typeof createQueue>[0] = {}) {
+  const queue = createQueue<string>({ concurrency: 1, ...config });
+  const started: string[] = [];
+  let release!: () => void;
+  const blocker = queue.enqueue("blocker", () => new Promise<string>((resolve) => {
+    release = () => resolve("blocker");
+  }));
+  const add = (key: string, options?: Parameters<typeof queue.enqueue>[2]) =>
+    queue.enqueue(key, async () => {
+      started.push(key);
+      return key;
+    }, options);
+
+  return { queue, started, add, release: () => release(), blocker };
+}
+
+describe("AsyncQueue", () => {
+  describe("scheduling", () => {
+    it("runs higher priority jobs first", async () => {
+      const { started, add, release } = blockedQueue();
+      const jobs = [
+        add("low", { priority: "low" }),
+        add("normal"),
+        add("high", { priority: "high" }),
+      ];
+
+      release();
+      await Promise.all(jobs);
+
+      expect(started).toEqual(["high", "normal", "low"]);
+    });
+
+    it("takes turns between tenants within a priority", async () => {
+      const { started, add, release } = blockedQueue();
+      const jobs = [
+        add("a1", { tenant: "a" }),
+        add("a2", { tenant: "a" }),
+        add("a3", { tenant: "a" }),
+        add("b1", { tenant: "b" }),
+        add("c1", { tenant: "c" }),
+      ];
+
+      release();
+      await Promise.all(jobs);
+
+      expect(started).toEqual(["a1", "b1", "c1", "a2", "a3"]);
+    });
+
+    it("raises a queued job to the priority of a higher duplicate", async () => {
+      const { queue, started, add, release } = blockedQueue();
+      const jobs = [
+        add("normal"),
+        add("warm", { priority: "low" }),
+        add("warm", { priority: "high" }),
+        add("warm", { priority: "low" }),
+      ];
+
+      expect(queue.getStats().pendingByPriority).toEqual({ high: 1, normal: 1, low: 0 });
+
+      release();
+      await Promise.all(jobs);
+
+      expect(started).toEqual(["warm", "normal"]);
+    });
+
+    it("reports pending jobs by priority", async () => {
+      const { queue, add, release } = blockedQueue();
+      const jobs = [
+        add("high", { priority: "high" }),
+        add("low-1", { priority: "low" }),
+        add("low-2", { priority: "low" }),
+      ];
+
+      expect(queue.getStats()).toMatchObject({
+        pending: 3,
+        pendingByPriority: { high: 1, normal: 0, low: 2 },
+      });
+
+      release();
+      await Promise.all(jobs);
+    });
+  });
+
+  describe("maxPending", () => {
+    it("rejects jobs beyond the limit with QueueFullError", async () => {
+      const { queue, add, release } = blockedQueue({ maxPending: 1 });
+      const waiting = add("first");
+
+      const rejected = add("second");
+      await expect(rejected).rejects.toBeInstanceOf(QueueFullError);
+      await expect(rejected).rejects.toMatchObject({ maxPending: 1 });
+      expect(queue.getStats().rejected).toBe(1);
+
+      // Duplicates share the queued job instead of taking another place
+      const duplicate = add("first");
+
+      release();
+      expect(await waiting).toBe("first");
+      expect(await duplicate).toBe("first");
+      expect(queue.getStats().rejected).toBe(1);
+    });
+  });
+
+  describe("retries", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("backs off exponentially up to maxRetryDelay", async () => {
+      vi.useFakeTimers();
+      const queue = createQueue<string>({ maxRetries: 4, retryDelay: 100, maxRetryDelay: 300, retryJitter: 0 });
+      const startedAt: number[] = [];
+
+      const job = queue.enqueue("flaky", async () => {
+        startedAt.push(Date.now());
+        throw new Error("unavailable");
+      });
+      const failed = expect(job).rejects.toThrow("unavailable");
+      await vi.runAllTimersAsync();
+      await failed;
+
+      const delays = startedAt.slice(1).map((time, index) => time - startedAt[index]);
+      expect(delays).toEqual([100, 200, 300, 300]);
+      expect(queue.getStats()).toMatchObject({ attempts: 5, failedAttempts: 5, retries: 4, retrying: 0, failed: 1 });
+    });
+
+    it("randomises part of each delay", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 100, retryJitter: 0.5 });
+      let calls = 0;
+
+      const job = queue.enqueue("flaky", async () => {
+        if (++calls === 1) {
+          throw new Error("unavailable");
+        }
+        return "ok";
+      });
+      await vi.advanceTimersByTimeAsync(49);
+      expect(calls).toBe(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await job).toBe("ok");
+    });
+
+    it("does not retry errors rejected by shouldRetry", async () => {
+      const queue = createQueue<string>({ retryDelay: 1, shouldRetry: error => error.message !== "not found" });
+      let calls = 0;
+
+      await expect(queue.enqueue("missing", async () => {
+        calls++;
+        throw new Error("not found");
+      })).rejects.toThrow("not found");
+
+      expect(calls).toBe(1);
+      expect(queue.getStats()).toMatchObject({ attempts: 1, retries: 0, failed: 1 });
+    });
+
+    it("frees the concurrency slot while a job waits to retry", async () => {
+      const queue = createQueue<string>({ concurrency: 1, retryDelay: 1000 });
+      let calls = 0;
+
+      const flaky = queue.enqueue("flaky", async () => {
+        if (++calls === 1) {
+          throw new Error("unavailable");
+        }
+        return "flaky";
+      });
+      expect(await queue.enqueue("other", async () => "other")).toBe("other");
+      expect(queue.getStats()).toMatchObject({ retrying: 1, processing: 0 });
+      expect(queue.isEmpty()).toBe(false);
+
+      queue.clear();
+      await expect(flaky).rejects.toThrow("Queue cleared");
+      expect(queue.getStats().retrying).toBe(0);
+    });
+  });
+
+  describe("dead letters", () => {
+    const failing = (message: string) => async (): Promise<string> => {
+      throw new Error(message);
+    };
+
+    it("keeps failed jobs with their last error and attempt count", async () => {
+      const queue = createQueue<string>({ maxRetries: 2, retryDelay: 1 });
+
+      await expect(queue.enqueue("user:1", failing("down"), { priority: "high", tenant: "a" })).rejects.toThrow("down");
+
+      const [letter] = queue.getDeadLetters();
+      expect(letter).toMatchObject({
+        key: "user:1",
+        priority: "high",
+        tenant: "a",
+        error: { name: "Error", message: "down" },
+        attempts: 3,
+      });
+      expect(Date.parse(letter.failedAt)).toBeGreaterThanOrEqual(Date.parse(letter.enqueuedAt));
+      expect(queue.getDeadLetter(letter.id)).toEqual(letter);
+      expect(queue.getStats().deadLetters).toBe(1);
+    });
+
+    it("drops the oldest entries beyond deadLetterLimit", async () => {
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 1, deadLetterLimit: 2 });
+
+      for (const key of ["a", "b", "c"]) {
+        await expect(queue.enqueue(key, failing(key), { timeout: 1000 })).rejects.toThrow(key);
+      }
+
+      expect(queue.getDeadLetters().map(letter => letter.key)).toEqual(["c", "b"]);
+    });
+
+    it("replays a dead letter", async () => {
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 1 });
+      let healthy = false;
+      const task = async () => {
+        if (!healthy) {
+          throw new Error("down");
+        }
+        return "ok";
+      };
+
+      await expect(queue.enqueue("user:1", task)).rejects.toThrow("down");
+      const [letter] = queue.getDeadLetters();
+
+      const replayed: [string, string][] = [];
+      queue.onReplayed((key, result) => {
+        replayed.push([key, result]);
+      });
+
+      healthy = true;
+      expect(await queue.replayDeadLetter(letter.id)).toBe("ok");
+      expect(replayed).toEqual([["user:1", "ok"]]);
+      expect(queue.getDeadLetters()).toEqual([]);
+      expect(queue.replayDeadLetter(letter.id)).toBeUndefined();
+    });
+
+    it("purges one or all dead letters", async () => {
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 1 });
+      for (const key of ["a", "b", "c"]) {
+        await expect(queue.enqueue(key, failing(key))).rejects.toThrow(key);
+      }
+
+      expect(queue.purgeDeadLetters(queue.getDeadLetters()[0].id)).toBe(1);
+      expect(queue.purgeDeadLetters("unknown")).toBe(0);
+      expect(queue.purgeDeadLetters()).toBe(2);
+      expect(queue.getDeadLetters()).toEqual([]);
+    });
+
+    it("keeps only the failed jobs shouldDeadLetter picks", async () => {
+      const shouldDeadLetter = vi.fn((errors: Error[]) => errors[0].message !== "rejected");
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 1, shouldDeadLetter });
+
+      await expect(queue.enqueue("a", failing("rejected"))).rejects.toThrow("rejected");
+      await expect(queue.enqueue("b", failing("down"))).rejects.toThrow("down");
+
+      expect(queue.getDeadLetters().map(letter => letter.key)).toEqual(["b"]);
+      expect(shouldDeadLetter.mock.calls[1][0].map(error => error.message)).toEqual(["down", "down"]);
+      expect(queue.getStats().failed).toBe(2);
+    });
+
+    it("keeps none when deadLetterLimit is 0", async () => {
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 1, deadLetterLimit: 0 });
+
+      await expect(queue.enqueue("a", failing("a"))).rejects.toThrow("a");
+      expect(queue.getDeadLetters()).toEqual([]);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("frees the slot of a hung task and retries it", async () => {
+      const queue = createQueue<string>({ concurrency: 1, maxRetries: 1, retryDelay: 1, timeout: 20 });
+      const signals: AbortSignal[] = [];
+
+      const hung = queue.enqueue("hung", (signal) => {
+        signals.push(signal);
+        return new Promise<string>(() => {});
+      });
+      const next = queue.enqueue("next", async () => "next");
+
+      await expect(hung).rejects.toBeInstanceOf(QueueTimeoutError);
+      expect(await next).toBe("next");
+      expect(signals).toHaveLength(2);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+      expect(queue.getStats()).toMatchObject({ timedOut: 2, failed: 1, processing: 0 });
+    });
+
+    it("lets a job override the queue's timeout", async () => {
+      const queue = createQueue<string>({ maxRetries: 1, retryDelay: 1, timeout: 10 });
+      const slow = () => new Promise<string>(resolve => setTimeout(resolve, 30, "done"));
+
+      expect(await queue.enqueue("slow", slow, { timeout: 1000 })).toBe("done");
+    });
+  });
+
+  describe("cancellation", () => {
+    it("drops a queued job whose caller went away", async () => {
+      const { queue, started, add, release } = blockedQueue();
+      const controller = new AbortController();
+
+      const cancelled = add("gone", { signal: controller.signal });
+      controller.abort();
+
+      await expect(cancelled).rejects.toBeInstanceOf(QueueCancelledError);
+      expect(queue.getStats()).toMatchObject({ pending: 0, cancelled: 1 });
+
+      release();
+      await add("after");
+      expect(started).toEqual(["after"]);
+    });
+
+    it("aborts a running job and frees its slot", async () => {
+      const queue = createQueue<string>({ concurrency: 1 });
+      const controller = new AbortController();
+      let taskSignal!: AbortSignal;
+
+      const running = queue.enqueue("running", (signal) => {
+        taskSignal = signal;
+        return new Promise<string>(() => {});
+      }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(running).rejects.toBeInstanceOf(QueueCancelledError);
+      expect(taskSignal.aborted).toBe(true);
+      expect(await queue.enqueue("next", async () => "next")).toBe("next");
+    });
+
+    it("keeps a deduplicated job while any caller still waits", async () => {
+      const { queue, started, add, release } = blockedQueue();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const leaving = add("shared", { signal: first.signal });
+      const staying = add("shared", { signal: second.signal });
+      first.abort();
+      await expect(leaving).rejects.toBeInstanceOf(QueueCancelledError);
+
+      release();
+      expect(await staying).toBe("shared");
+      expect(started).toEqual(["shared"]);
+      expect(queue.getStats().cancelled).toBe(0);
+    });
+
+    it("cancels a deduplicated job once every caller has gone", async () => {
+      const { queue, add } = blockedQueue();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const jobs = [add("shared", { signal: first.signal }), add("shared", { signal: second.signal })];
+      first.abort();
+      second.abort();
+
+      for (const job of jobs) {
+        await expect(job).rejects.toBeInstanceOf(QueueCancelledError);
+      }
+      expect(queue.getStats()).toMatchObject({ pending: 0, cancelled: 1 });
+    });
+
+    it("rejects a caller whose signal is already aborted", async () => {
+      const queue = createQueue<string>();
+      let calls = 0;
+
+      await expect(queue.enqueue("key", async () => String(++calls), { signal: AbortSignal.abort() }))
+        .rejects
+        .toBeInstanceOf(QueueCancelledError);
+      expect(calls).toBe(0);
+    });
+  });
+
+  describe("drain", () => {
+    it("resolves when the last job finishes, retries included", async () => {
+      const queue = createQueue<string>({ retryDelay: 20, retryJitter: 0 });
+      let calls = 0;
+      const job = queue.enqueue("flaky", async () => {
+        if (++calls === 1) {
+          throw new Error("unavailable");
+        }
+        return "ok";
+      });
+
+      await queue.drain();
+
+      expect(calls).toBe(2);
+      expect(queue.isEmpty()).toBe(true);
+      expect(await job).toBe("ok");
+    });
+
+    it("resolves at once for an empty queue", async () => {
+      await expect(createQueue<string>().drain()).resolves.toBeUndefined();
+    });
+
+    it("stops waiting when its signal aborts", async () => {
+      const { queue, release, blocker } = blockedQueue();
+
+      await expect(queue.drain(AbortSignal.timeout(10))).rejects.toMatchObject({ name: "TimeoutError" });
+
+      release();
+      await blocker;
+      await queue.drain();
+    });
+  });
+
+  describe("invalidate", () => {
+    it("re-runs an in-flight job so deduplicated waiters get fresh data", async () => {
+      const queue = createQueue<string>({ concurrency: 1 });
+      let value = "before";
+      let release!: () => void;
+      let calls = 0;
+
+      const task = async () => {
+        calls++;
+        const read = value;
+        if (calls === 1) {
+          await new Promise<void>((resolve) => {
+            release = resolve;
+          });
+        }
+        return read;
+      };
+
+      const first = queue.enqueue("user:1", task);
+      const second = queue.enqueue("user:1", task);
+
+      // Let the first task start before the write happens
+      await Promise.resolve();
+      value = "after";
+      expect(queue.invalidate("user:1")).toBe(true);
+      release();
+
+      expect(await first).toBe("after");
+      expect(await second).toBe("after");
+      expect(calls).toBe(2);
+    });
+
+    it("returns false when no job is running for the key", () => {
+      const queue = createQueue<string>();
+
+      expect(queue.invalidate("user:1")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { CircuitBreaker, CircuitOpenError, CircuitTimeoutError } from "../src/circuit-breaker/circuit-breaker.js";
+
+async function fail() {
+  throw new Error("unavailable");
+}
+const succeed = async () => "ok";
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after failureThreshold failures in a row and then fails fast", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 10_000 });
+    const operation = vi.fn(fail);
+
+    await expect(breaker.execute(operation)).rejects.toThrow("unavailable");
+    await expect(breaker.execute(succeed)).resolves.toBe("ok"); // A success resets the count
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(operation)).rejects.toThrow("unavailable");
+    }
+    expect(breaker.getState()).toBe("open");
+
+    vi.advanceTimersByTime(4000);
+    const rejected = breaker.execute(operation);
+    await expect(rejected).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(rejected).rejects.toMatchObject({ retryAfter: 6000 });
+    expect(operation).toHaveBeenCalledTimes(4);
+    expect(breaker.getStats()).toMatchObject({ state: "open", failures: 4, successes: 1, rejected: 1, opened: 1 });
+  });
+
+  it("closes again after a successful trial call", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10_000 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(10_000);
+    expect(breaker.getState()).toBe("half-open");
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+
+    expect(breaker.getStats()).toMatchObject({ state: "closed", consecutiveFailures: 0, openedAt: null });
+  });
+
+  it("reopens when a trial call fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 10_000 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(10_000);
+    await expect(breaker.execute(fail)).rejects.toThrow("unavailable");
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.getRetryAfter()).toBe(10_000);
+    expect(breaker.getStats().opened).toBe(2);
+  });
+
+  it("lets only halfOpenMaxCalls trial calls through at a time", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, halfOpenMaxCalls: 1, successThreshold: 2 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+
+    let release!: () => void;
+    const trial = breaker.execute(() => new Promise<void>((resolve) => {
+      release = resolve;
+    }));
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release();
+    await trial;
+    expect(breaker.getState()).toBe("half-open"); // One of two required successes
+    await breaker.execute(succeed);
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("counts calls that hang as failures", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000, callTimeout: 500 });
+    const hang = () => new Promise<string>(() => {});
+
+    const first = expect(breaker.execute(hang)).rejects.toBeInstanceOf(CircuitTimeoutError);
+    await vi.advanceTimersByTimeAsync(500);
+    await first;
+    expect(breaker.getStats()).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+
+    const second = expect(breaker.execute(hang)).rejects.toThrow("Call timed out after 500ms");
+    await vi.advanceTimersByTimeAsync(500);
+    await second;
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("frees the trial slot when a trial call hangs", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, callTimeout: 500 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+
+    const trial = expect(breaker.execute(() => new Promise<string>(() => {}))).rejects.toBeInstanceOf(CircuitTimeoutError);
+    await vi.advanceTimersByTimeAsync(500);
+    await trial;
+    expect(breaker.getState()).toBe("open");
+
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("ignores errors that isFailure does not count", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, isFailure: error => error.message !== "not found" });
+
+    await expect(breaker.execute(async () => {
+      throw new Error("not found");
+    })).rejects.toThrow("not found");
+
+    expect(breaker.getState()).toBe("closed");
+  });
+});
@@ -0,0 +1,130 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import request from "supertest";
+import { describe, expect, it, vi } from "vitest";
+
+import { createApp } from "../src/app.js";
+import { createCacheStoreFactory } from "../src/cache/index.js";
+import { HealthChecks } from "../src/health.js";
+import { Lifecycle } from "../src/lifecycle.js";
+import { JsonFileUserRepository } from "../src/repositories/json-file-user-repository.js";
+import { FakeUserRepository } from "./helpers/fake-user-repository.js";
+
+describe("HealthChecks", () => {
+  it("reports the worst status of all checks", async () => {
+    const checks = new HealthChecks();
+    checks.register("ok", () => ({ status: "pass" }));
+    checks.register("degraded", async () => ({ status: "warn", reason: "slow" }));
+
+    const report = await checks.run();
+
+    expect(report.status).toBe("warn");
+    expect(report.checks.degraded).toMatchObject({ status: "warn", reason: "slow" });
+    expect(report.checks.ok.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("fails checks that throw or time out", async () => {
+    const checks = new HealthChecks();
+    checks.register("broken", () => {
+      throw new Error("connection refused");
+    });
+    checks.register("hung", () => new Promise(() => {}), { timeoutMs: 10 });
+
+    const report = await checks.run();
+
+    expect(report.status).toBe("fail");
+    expect(report.checks.broken).toMatchObject({ status: "fail", error: "connection refused" });
+    expect(report.checks.hung).toMatchObject({ status: "fail", error: "Timed out after 10ms" });
+  });
+
+  it("only warns when a non-critical check fails", async () => {
+    const checks = new HealthChecks();
+    checks.register("optional", () => {
+      throw new Error("connection refused");
+    }, { critical: false });
+
+    const report = await checks.run();
+
+    expect(report.status).toBe("warn");
+    expect(report.checks.optional).toMatchObject({ status: "warn", error: "connection refused" });
+  });
+});
+
+describe("Health endpoints", () => {
+  it("GET /healthz reports the process as live", async () => {
+    const response = await request(createApp()).get("/healthz").expect(200);
+
+    expect(response.body.status).toBe("pass");
+    expect(response.body.uptimeSeconds).toBeGreaterThanOrEqual(0);
+    expect(response.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("GET /readyz passes with details of every check", async () => {
+    const response = await request(createApp()).get("/readyz").expect(200);
+
+    expect(response.body.status).toBe("pass");
+    expect(Object.keys(response.body.checks).sort()).toEqual(["cache", "queue", "repository", "shutdown"]);
+    expect(response.body.checks.queue).toMatchObject({ status: "pass", processing: 0, concurrency: 5, pending: 0, maxPending: 100 });
+    expect(response.body.checks.repository).toMatchObject({ status: "pass", circuitBreaker: "closed" });
+    expect(response.body.checks.shutdown).toMatchObject({ status: "pass", state: "running" });
+  });
+
+  it("GET /readyz fails once shutdown starts", async () => {
+    const lifecycle = new Lifecycle();
+    const app = createApp({ lifecycle });
+    await lifecycle.shutdown();
+
+    const response = await request(app).get("/readyz").expect(503);
+    expect(response.body.checks.shutdown).toMatchObject({ status: "fail", state: "stopped" });
+    await request(app).get("/healthz").expect(200);
+  });
+
+  it("GET /readyz fails when the data source is unreachable", async () => {
+    const app = createApp({ userRepository: new FakeUserRepository().failNext(Infinity) });
+
+    const response = await request(app).get("/readyz").expect(503);
+    expect(response.body.checks.repository).toMatchObject({ status: "fail", error: "Repository unavailable" });
+  });
+
+  it("GET /readyz fails when the data file goes away", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "users-"));
+    try {
+      const app = createApp({ userRepository: new JsonFileUserRepository(path.join(dir, "users.json")) });
+      await request(app).get("/readyz").expect(200);
+
+      await fs.rm(path.join(dir, "users.json"));
+      const response = await request(app).get("/readyz").expect(503);
+      expect(response.body.checks.repository).toMatchObject({ status: "fail", error: expect.stringContaining("ENOENT") });
+    }
+    finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("GET /readyz only warns when the cache backend is down", async () => {
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    const app = createApp({
+      cacheStore: createCacheStoreFactory({ CACHE_STORE: "redis", CACHE_INVALIDATION: "none", REDIS_URL: "redis://127.0.0.1:1" }),
+    });
+
+    const response = await request(app).get("/readyz").expect(200);
+    expect(response.body.status).toBe("warn");
+    expect(response.body.checks.cache).toMatchObject({ status: "warn", error: expect.stringContaining("ECONNREFUSED") });
+    errors.mockRestore();
+  });
+
+  it("GET /readyz fails when the queue is full", async () => {
+    const app = createApp({ userQueue: { maxPending: 0 } });
+
+    const response = await request(app).get("/readyz").expect(503);
+    expect(response.body.checks.queue).toMatchObject({ status: "fail", maxPending: 0 });
+  });
+
+  it("is not rate limited", async () => {
+    const app = createApp();
+    for (let i = 0; i < 20; i++) {
+      await request(app).get("/readyz").expect(200);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import type { User, UserInput, UserListPage, UserListQuery } from "../../src/repositories/index.js";
+
+import { InMemoryUserRepository } from "../../src/repositories/in-memory-user-repository.js";
+
+/**
+ * In-memory repository that can be told to fail or slow down on demand
+ */
+export class FakeUserRepository extends InMemoryUserRepository {
+  delayMs = 0;
+  failuresRemaining = 0;
+  hangsRemaining = 0;
+  failureError = new Error("Repository unavailable");
+  calls = { findById: 0, findByIds: 0, list: 0, create: 0, update: 0, delete: 0, ping: 0 };
+
+  /**
+   * Fail the next `count` calls (every call when count is Infinity)
+   */
+  failNext(count = 1, error?: Error): this {
+    this.failuresRemaining = count;
+    if (error) {
+      this.failureError = error;
+    }
+    return this;
+  }
+
+  /**
+   * Never settle the next `count` calls
+   */
+  hangNext(count = 1): this {
+    this.hangsRemaining = count;
+    return this;
+  }
+
+  /**
+   * Delay every call by `ms` milliseconds
+   */
+  delay(ms: number): this {
+    this.delayMs = ms;
+    return this;
+  }
+
+  override async findById(id: number): Promise<User | null> {
+    this.calls.findById++;
+    await this.simulate();
+    return super.findById(id);
+  }
+
+  override async findByIds(ids: number[]): Promise<User[]> {
+    this.calls.findByIds++;
+    await this.simulate();
+    return super.findByIds(ids);
+  }
+
+  override async list(query: UserListQuery): Promise<UserListPage> {
+    this.calls.list++;
+    await this.simulate();
+    return super.list(query);
+  }
+
+  override async create(input: UserInput): Promise<User> {
+    this.calls.create++;
+    await this.simulate();
+    return super.create(input);
+  }
+
+  override async update(id: number, changes: Partial<UserInput>): Promise<User | null> {
+    this.calls.update++;
+    await this.simulate();
+    return super.update(id, changes);
+  }
+
+  override async delete(id: number): Promise<boolean> {
+    this.calls.delete++;
+    await this.simulate();
+    return super.delete(id);
+  }
+
+  override async ping(): Promise<void> {
+    this.calls.ping++;
+    await this.simulate();
+  }
+
+  private async simulate(): Promise<void> {
+    if (this.hangsRemaining > 0) {
+      this.hangsRemaining--;
+      await new Promise(() => {});
+    }
+
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    }
+
+    if (this.failuresRemaining > 0) {
+      this.failuresRemaining--;
+      throw this.failureError;
+    }
+  }
+}
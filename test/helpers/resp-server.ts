@@ -0,0 +1,291 @@
+import type { AddressInfo } from "node:net";
+
+import { Buffer } from "node:buffer";
+import net from "node:net";
+
+import type { RespValue } from "../../src/redis/resp.js";
+
+import {
+  encodeArray,
+  encodeBulkString,
+  encodeError,
+  encodeInteger,
+  encodeSimpleString,
+  parseResp,
+} from "../../src/redis/resp.js";
+
+type Entry = {
+  value: string;
+  expiresAt: number | null; // Epoch milliseconds
+};
+
+type CommandHandler = (args: string[], socket: net.Socket) => string;
+
+// Per-connection transaction state
+type Connection = {
+  watched: Map<string, number>; // Key -> version when watched
+  queued: string[][] | null; // Commands queued since MULTI
+};
+
+// Translate a Redis glob pattern (*, ?, [...], backslash escapes) to a RegExp
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+    else if (char === "*") {
+      source += ".*";
+    }
+    else if (char === "?") {
+      source += ".";
+    }
+    else if (char === "[") {
+      const end = pattern.indexOf("]", i);
+      source += end === -1 ? "\\[" : pattern.slice(i, end + 1);
+      i = end === -1 ? i : end;
+    }
+    else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * In-process stand-in for a Redis server
+ *
+ * Implements just the commands the app uses, with lazy key expiry and
+ * WATCH/MULTI/EXEC transactions. `commands` counts every command received by
+ * name.
+ */
+export class RespServer {
+  private server = net.createServer(socket => this.onConnection(socket));
+  private sockets = new Set<net.Socket>();
+  private data = new Map<string, Entry>();
+  private channels = new Map<string, Set<net.Socket>>();
+  private versions = new Map<string, number>(); // Bumped on every write, for WATCH
+  private connections = new Map<net.Socket, Connection>();
+  private handlers: Record<string, CommandHandler>;
+  commands: Record<string, number> = {};
+
+  constructor() {
+    this.handlers = {
+      PING: () => encodeSimpleString("PONG"),
+      AUTH: () => encodeSimpleString("OK"),
+      SELECT: () => encodeSimpleString("OK"),
+      FLUSHALL: () => {
+        for (const key of this.data.keys()) {
+          this.touch(key);
+        }
+        this.data.clear();
+        return encodeSimpleString("OK");
+      },
+      GET: ([key]) => encodeBulkString(this.read(key)?.value ?? null),
+      MGET: keys => encodeArray(keys.map(key => encodeBulkString(this.read(key)?.value ?? null))),
+      SET: ([key, value, ...options]) => this.set(key, value, options),
+      DEL: keys => encodeInteger(keys.filter(key => this.read(key) && this.touch(key) && this.data.delete(key)).length),
+      WATCH: (keys, socket) => {
+        const connection = this.connection(socket);
+        for (const key of keys) {
+          connection.watched.set(key, this.versions.get(key) ?? 0);
+        }
+        return encodeSimpleString("OK");
+      },
+      UNWATCH: (_args, socket) => {
+        this.connection(socket).watched.clear();
+        return encodeSimpleString("OK");
+      },
+      MULTI: (_args, socket) => {
+        this.connection(socket).queued = [];
+        return encodeSimpleString("OK");
+      },
+      DISCARD: (_args, socket) => {
+        const connection = this.connection(socket);
+        connection.queued = null;
+        connection.watched.clear();
+        return encodeSimpleString("OK");
+      },
+      EXEC: (_args, socket) => {
+        const connection = this.connection(socket);
+        const queued = connection.queued;
+        if (!queued) {
+          return encodeError("ERR EXEC without MULTI");
+        }
+
+        const conflict = [...connection.watched].some(([key, version]) => (this.versions.get(key) ?? 0) !== version);
+        connection.queued = null;
+        connection.watched.clear();
+        if (conflict) {
+          return encodeArray(null);
+        }
+        return encodeArray(queued.map(([name, ...args]) => this.dispatch(name, args, socket)));
+      },
+      EXISTS: keys => encodeInteger(keys.filter(key => this.read(key)).length),
+      PTTL: ([key]) => {
+        const entry = this.read(key);
+        if (!entry) {
+          return encodeInteger(-2);
+        }
+        return encodeInteger(entry.expiresAt === null ? -1 : entry.expiresAt - Date.now());
+      },
+      PUBLISH: ([channel, message]) => {
+        const subscribers = this.channels.get(channel) ?? new Set();
+        for (const subscriber of subscribers) {
+          subscriber.write(encodeArray([encodeBulkString("message"), encodeBulkString(channel), encodeBulkString(message)]));
+        }
+        return encodeInteger(subscribers.size);
+      },
+      SUBSCRIBE: (channels, socket) => channels.map((channel) => {
+        const subscribers = this.channels.get(channel) ?? new Set();
+        subscribers.add(socket);
+        this.channels.set(channel, subscribers);
+        return encodeArray([encodeBulkString("subscribe"), encodeBulkString(channel), encodeInteger(this.subscriptionCount(socket))]);
+      }).join(""),
+      UNSUBSCRIBE: (channels, socket) => channels.map((channel) => {
+        this.channels.get(channel)?.delete(socket);
+        return encodeArray([encodeBulkString("unsubscribe"), encodeBulkString(channel), encodeInteger(this.subscriptionCount(socket))]);
+      }).join(""),
+      SCAN: ([, ...options]) => {
+        const matchIndex = options.findIndex(option => option.toUpperCase() === "MATCH");
+        const pattern = globToRegExp(matchIndex === -1 ? "*" : options[matchIndex + 1]);
+        // Everything in one pass - cursor 0 ends the iteration
+        const keys = [...this.data.keys()].filter(key => this.read(key) && pattern.test(key));
+        return encodeArray([encodeBulkString("0"), encodeArray(keys.map(encodeBulkString))]);
+      },
+    };
+  }
+
+  /**
+   * Start listening on a random local port and return the redis:// URL
+   */
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Number of live (non-expired) keys
+   */
+  size(): number {
+    return [...this.data.keys()].filter(key => this.read(key)).length;
+  }
+
+  private onConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      this.connections.delete(socket);
+      for (const subscribers of this.channels.values()) {
+        subscribers.delete(socket);
+      }
+    });
+
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let offset = 0;
+      for (;;) {
+        const parsed = parseResp(buffer, offset);
+        if (!parsed) {
+          break;
+        }
+        offset = parsed.offset;
+        socket.write(this.execute(parsed.value, socket));
+      }
+      buffer = buffer.subarray(offset);
+    });
+  }
+
+  private execute(request: RespValue, socket: net.Socket): string {
+    if (!Array.isArray(request) || request.length === 0) {
+      return encodeError("ERR Protocol error");
+    }
+
+    const [name, ...args] = request.map(String);
+    const command = name.toUpperCase();
+    this.commands[command] = (this.commands[command] ?? 0) + 1;
+
+    const connection = this.connections.get(socket);
+    if (connection?.queued && !["EXEC", "DISCARD", "MULTI", "WATCH"].includes(command)) {
+      connection.queued.push([name, ...args]);
+      return encodeSimpleString("QUEUED");
+    }
+
+    return this.dispatch(name, args, socket);
+  }
+
+  private dispatch(name: string, args: string[], socket: net.Socket): string {
+    const handler = this.handlers[name.toUpperCase()];
+    if (!handler) {
+      return encodeError(`ERR unknown command '${name}'`);
+    }
+    return handler(args, socket);
+  }
+
+  private connection(socket: net.Socket): Connection {
+    let connection = this.connections.get(socket);
+    if (!connection) {
+      connection = { watched: new Map(), queued: null };
+      this.connections.set(socket, connection);
+    }
+    return connection;
+  }
+
+  // Record a write to a key, aborting transactions that watch it
+  private touch(key: string): true {
+    this.versions.set(key, (this.versions.get(key) ?? 0) + 1);
+    return true;
+  }
+
+  private subscriptionCount(socket: net.Socket): number {
+    return [...this.channels.values()].filter(subscribers => subscribers.has(socket)).length;
+  }
+
+  private set(key: string, value: string, options: string[]): string {
+    let expiresAt: number | null = null;
+    let condition: string | null = null;
+
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i].toUpperCase();
+      if (option === "PX" || option === "EX") {
+        const amount = Number(options[++i]);
+        expiresAt = Date.now() + (option === "EX" ? amount * 1000 : amount);
+      }
+      else if (option === "NX" || option === "XX") {
+        condition = option;
+      }
+    }
+
+    const exists = this.read(key) !== null;
+    if ((condition === "NX" && exists) || (condition === "XX" && !exists)) {
+      return encodeBulkString(null);
+    }
+
+    this.data.set(key, { value, expiresAt });
+    this.touch(key);
+    return encodeSimpleString("OK");
+  }
+
+  // Read a key, dropping it when it has expired
+  private read(key: string): Entry | null {
+    const entry = this.data.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return null;
+    }
+    return entry;
+  }
+}
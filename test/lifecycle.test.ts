@@ -0,0 +1,78 @@
+import http from "node:http";
+import request from "supertest";
+import { describe, expect, it, vi } from "vitest";
+
+import { createApp } from "../src/app.js";
+import { closeServer, Lifecycle } from "../src/lifecycle.js";
+import { FakeUserRepository } from "./helpers/fake-user-repository.js";
+
+describe("Lifecycle", () => {
+  it("runs tasks newest first and stops being ready", async () => {
+    const lifecycle = new Lifecycle();
+    const ran: string[] = [];
+    let readyDuringShutdown: boolean | undefined;
+    lifecycle.onShutdown("first", () => {
+      ran.push("first");
+    });
+    lifecycle.onShutdown("second", async () => {
+      readyDuringShutdown = lifecycle.isReady();
+      ran.push("second");
+    });
+
+    expect(lifecycle.isReady()).toBe(true);
+    expect(await lifecycle.shutdown()).toEqual([]);
+
+    expect(ran).toEqual(["second", "first"]);
+    expect(readyDuringShutdown).toBe(false);
+    expect(lifecycle.getState()).toBe("stopped");
+  });
+
+  it("abandons a task at the deadline and still runs the rest", async () => {
+    const lifecycle = new Lifecycle();
+    const ran: string[] = [];
+    let aborted = false;
+    lifecycle.onShutdown("cleanup", () => {
+      ran.push("cleanup");
+    });
+    lifecycle.onShutdown("slow", signal => new Promise<void>(() => {
+      signal.addEventListener("abort", () => {
+        aborted = true;
+      });
+    }));
+
+    expect(await lifecycle.shutdown(20)).toEqual(["slow"]);
+    expect(aborted).toBe(true);
+    expect(ran).toEqual(["cleanup"]);
+  });
+
+  it("drains in-flight database loads before shutting down", async () => {
+    const lifecycle = new Lifecycle();
+    const repository = new FakeUserRepository().delay(50);
+    const app = createApp({ userRepository: repository, lifecycle });
+
+    const server = app.listen(0);
+    lifecycle.onShutdown("http server", signal => closeServer(server, signal));
+    const { port } = server.address() as { port: number };
+
+    const inFlight = request(`http://localhost:${port}`).get("/users/1");
+    const response = inFlight.then(result => result);
+    await vi.waitFor(() => expect(repository.calls.findById).toBe(1));
+
+    expect(await lifecycle.shutdown(1000)).toEqual([]);
+    expect((await response).status).toBe(200);
+    expect(server.listening).toBe(false);
+  });
+
+  it("closes lingering connections once the deadline passes", async () => {
+    const server = http.createServer(() => {}); // Never responds
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+
+    const client = http.get(`http://localhost:${port}`);
+    const clientError = new Promise(resolve => client.on("error", resolve));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await closeServer(server, AbortSignal.timeout(20));
+    expect(await clientError).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import LRUCache from "../src/cache/lru-cache.js";
+
+describe("LRUCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("stale-while-revalidate", () => {
+    it("serves an expired entry immediately and refreshes it once in the background", async () => {
+      const cache = new LRUCache<string>(10, 60, { staleWhileRevalidateSeconds: 30 });
+      cache.set("user:1", "old");
+      vi.advanceTimersByTime(61_000);
+
+      let resolveRefresh!: (value: string) => void;
+      const loader = vi.fn(() => new Promise<string>((resolve) => {
+        resolveRefresh = resolve;
+      }));
+
+      expect(await cache.fetch("user:1", loader)).toBe("old");
+      expect(await cache.fetch("user:1", loader)).toBe("old");
+      expect(loader).toHaveBeenCalledTimes(1);
+
+      resolveRefresh("new");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(await cache.fetch("user:1", loader)).toBe("new");
+      expect(cache.getStats()).toMatchObject({
+        hits: 1,
+        staleHits: 2,
+        backgroundRefreshes: 1,
+        backgroundRefreshFailures: 0,
+      });
+
+      cache.destroy();
+    });
+
+    it("waits for the loader once the stale window has passed", async () => {
+      const cache = new LRUCache<string>(10, 60, { staleWhileRevalidateSeconds: 30 });
+      cache.set("user:1", "old");
+      vi.advanceTimersByTime(91_000);
+
+      expect(await cache.fetch("user:1", async () => "new")).toBe("new");
+      expect(cache.getStats()).toMatchObject({ misses: 1, staleHits: 0 });
+
+      cache.destroy();
+    });
+
+    it("keeps the stale value when a background refresh fails", async () => {
+      const cache = new LRUCache<string>(10, 60, { staleWhileRevalidateSeconds: 30 });
+      cache.set("user:1", "old");
+      vi.advanceTimersByTime(61_000);
+
+      expect(await cache.fetch("user:1", async () => {
+        throw new Error("down");
+      })).toBe("old");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(cache.getStats().backgroundRefreshFailures).toBe(1);
+      expect(await cache.fetch("user:1", async () => "new")).toBe("old");
+
+      cache.destroy();
+    });
+  });
+
+  describe("stale-if-error", () => {
+    it("serves the expired value when the loader fails", async () => {
+      const cache = new LRUCache<string>(10, 60, { staleIfErrorSeconds: 300 });
+      cache.set("user:1", "old");
+      vi.advanceTimersByTime(120_000);
+
+      expect(await cache.fetch("user:1", async () => {
+        throw new Error("down");
+      })).toBe("old");
+      expect(cache.getStats()).toMatchObject({ misses: 1, staleIfErrorHits: 1 });
+
+      cache.destroy();
+    });
+
+    it("rethrows once the stale-if-error window has passed", async () => {
+      const cache = new LRUCache<string>(10, 60, { staleIfErrorSeconds: 300 });
+      cache.set("user:1", "old");
+      vi.advanceTimersByTime(361_000);
+
+      await expect(cache.fetch("user:1", async () => {
+        throw new Error("down");
+      })).rejects.toThrow("down");
+
+      cache.destroy();
+    });
+  });
+
+  describe("per-entry TTL", () => {
+    it("overrides the default TTL for a single entry", () => {
+      const cache = new LRUCache<string>(10, 60);
+      cache.set("short", "value", { ttlSeconds: 5 });
+      cache.set("default", "value");
+      vi.advanceTimersByTime(6_000);
+
+      expect(cache.get("short")).toBeNull();
+      expect(cache.get("default")).toBe("value");
+
+      cache.destroy();
+    });
+
+    it("caches null loader results as tombstones with their own TTL", async () => {
+      const cache = new LRUCache<string>(10, 60);
+      const loader = vi.fn(async () => null);
+
+      expect(await cache.fetch("user:999", loader, { negativeTtlSeconds: 10 })).toBeNull();
+      expect(await cache.fetch("user:999", loader, { negativeTtlSeconds: 10 })).toBeNull();
+      expect(loader).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(11_000);
+      await cache.fetch("user:999", loader, { negativeTtlSeconds: 10 });
+      expect(loader).toHaveBeenCalledTimes(2);
+
+      cache.destroy();
+    });
+  });
+
+  describe("memory budget", () => {
+    it("reports approximate memory usage", () => {
+      const cache = new LRUCache<string>(10, 60);
+      cache.set("a", "xx");
+
+      // ("a" + "\"xx\"") * 2 bytes per character
+      expect(cache.getStats()).toMatchObject({ memoryUsage: 10, maxBytes: null });
+
+      cache.remove("a");
+      expect(cache.getStats().memoryUsage).toBe(0);
+
+      cache.destroy();
+    });
+
+    it("evicts least recently used entries to stay within maxBytes", () => {
+      const cache = new LRUCache<string>(100, 60, {
+        maxBytes: 100,
+        sizeEstimator: value => value.length,
+      });
+      cache.set("a", "x".repeat(40));
+      cache.set("b", "x".repeat(40));
+      cache.get("a");
+
+      // Needs 60 bytes, so "b" (least recently used) has to go
+      cache.set("c", "x".repeat(60));
+
+      expect(cache.get("b")).toBeNull();
+      expect(cache.getStats()).toMatchObject({ memoryUsage: 100, evictions: 1 });
+
+      // A further 60 bytes pushes out "a" as well
+      cache.set("d", "x".repeat(60));
+
+      expect(cache.get("a")).toBeNull();
+      expect(cache.get("d")).not.toBeNull();
+      expect(cache.getStats()).toMatchObject({ memoryUsage: 60, evictions: 3 });
+
+      cache.destroy();
+    });
+
+    it("does not store a value larger than the whole budget", () => {
+      const cache = new LRUCache<string>(100, 60, {
+        maxBytes: 10,
+        sizeEstimator: value => value.length,
+      });
+      cache.set("small", "x");
+      cache.set("big", "x".repeat(11));
+
+      expect(cache.get("big")).toBeNull();
+      expect(cache.get("small")).toBe("x");
+
+      cache.destroy();
+    });
+  });
+
+  describe("snapshot/restore", () => {
+    it("restores entries in recency order with their remaining TTL", () => {
+      const source = new LRUCache<string>(10, 60);
+      source.set("a", "1");
+      source.set("b", "2", { ttlSeconds: 10 });
+      source.setNegative("c", 10);
+      source.get("a"); // a is now the most recently used
+      vi.advanceTimersByTime(4_000);
+
+      const snapshot = source.snapshot();
+      expect(snapshot.entries.map(entry => entry.key)).toEqual(["a", "c", "b"]);
+      expect(snapshot.entries[2]).toMatchObject({ value: "2", ttl: 10_000, expiresIn: 6_000 });
+      source.destroy();
+
+      // Time spent between saving and restoring still counts
+      vi.advanceTimersByTime(2_000);
+      const target = new LRUCache<string>(2, 60);
+      expect(target.restore(snapshot)).toBe(2);
+
+      // Capacity 2: the least recently used entry (b) was evicted again
+      expect(target.get("b")).toBeNull();
+      expect(target.lookup("c")).toEqual({ status: "negative" });
+      expect(target.get("a")).toBe("1");
+
+      vi.advanceTimersByTime(55_000);
+      expect(target.get("a")).toBeNull();
+      target.destroy();
+    });
+
+    it("skips expired entries and keys that are already cached", () => {
+      const source = new LRUCache<string>(10, 60);
+      source.set("a", "old");
+      source.set("b", "2", { ttlSeconds: 1 });
+      const snapshot = source.snapshot();
+      source.destroy();
+
+      vi.advanceTimersByTime(2_000);
+      const target = new LRUCache<string>(10, 60);
+      target.set("a", "new");
+
+      expect(target.restore(snapshot)).toBe(0);
+      expect(target.get("a")).toBe("new");
+      expect(target.getStats().size).toBe(1);
+      target.destroy();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createApp } from "../src/app.js";
+import { createCacheStoreFactory } from "../src/cache/index.js";
+import { LRUCache } from "../src/cache/lru-cache.js";
+import { InMemoryPubSub, RespPubSub } from "../src/pubsub/index.js";
+import { FakeUserRepository } from "./helpers/fake-user-repository.js";
+import { RespServer } from "./helpers/resp-server.js";
+
+// Let published messages reach their subscribers
+function settle(ms = 20): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe("Cache invalidation bus", () => {
+  describe("LRUCache", () => {
+    const caches: LRUCache<string>[] = [];
+
+    function createCache(pubSub: InMemoryPubSub, channel = "cache-invalidation:test"): LRUCache<string> {
+      const cache = new LRUCache<string>(10, 60, { invalidation: { pubSub, channel } });
+      caches.push(cache);
+      return cache;
+    }
+
+    afterEach(() => {
+      caches.splice(0).forEach(cache => cache.destroy());
+    });
+
+    it("applies remove() and clear() from other instances", async () => {
+      const pubSub = new InMemoryPubSub();
+      const first = createCache(pubSub);
+      const second = createCache(pubSub);
+      second.set("a", "1");
+      second.set("b", "2");
+
+      first.remove("a");
+      await settle();
+      expect(second.get("a")).toBeNull();
+      expect(second.get("b")).toBe("2");
+
+      first.clear();
+      await settle();
+      expect(second.get("b")).toBeNull();
+    });
+
+    it("does not cache a load that was running when another instance invalidated the key", async () => {
+      const pubSub = new InMemoryPubSub();
+      const first = createCache(pubSub);
+      const second = createCache(pubSub);
+
+      let finishLoad!: (value: string) => void;
+      const load = second.fetch("a", () => new Promise<string>((resolve) => {
+        finishLoad = resolve;
+      }));
+      const loadAll = second.fetch("b", async () => {
+        await settle(40);
+        return "old";
+      });
+
+      first.remove("a");
+      first.clear();
+      await settle();
+      finishLoad("old");
+
+      expect(await load).toBe("old");
+      expect(await loadAll).toBe("old");
+      expect(second.get("a")).toBeNull();
+      expect(second.get("b")).toBeNull();
+
+      // Later loads are cached as usual
+      await second.fetch("a", async () => "new");
+      expect(second.get("a")).toBe("new");
+    });
+
+    it("does not re-publish received invalidations", async () => {
+      const pubSub = new InMemoryPubSub();
+      const first = createCache(pubSub);
+      const second = createCache(pubSub);
+      const third = createCache(pubSub);
+
+      first.remove("a");
+      await settle();
+
+      expect(first.getStats()).toMatchObject({ invalidationsSent: 1, invalidationsReceived: 0 });
+      expect(second.getStats()).toMatchObject({ invalidationsSent: 0, invalidationsReceived: 1 });
+      expect(third.getStats()).toMatchObject({ invalidationsSent: 0, invalidationsReceived: 1 });
+    });
+
+    it("keeps channels apart and leaves peers alone on destroy()", async () => {
+      const pubSub = new InMemoryPubSub();
+      const users = createCache(pubSub, "cache-invalidation:user");
+      const lists = createCache(pubSub, "cache-invalidation:user-list");
+      const peer = createCache(pubSub, "cache-invalidation:user");
+      lists.set("a", "1");
+      peer.set("a", "1");
+
+      users.clear();
+      users.destroy();
+      await settle();
+
+      expect(lists.get("a")).toBe("1");
+      expect(peer.getStats().invalidationsReceived).toBe(1);
+
+      peer.set("a", "1");
+      users.destroy();
+      await settle();
+      expect(peer.get("a")).toBe("1");
+    });
+  });
+
+  describe("RespPubSub", () => {
+    let server: RespServer;
+    let url: string;
+
+    beforeEach(async () => {
+      server = new RespServer();
+      url = await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("delivers messages between connections", async () => {
+      const publisher = new RespPubSub(url);
+      const subscriber = new RespPubSub(url);
+      const received: string[] = [];
+      const handler = (message: string) => received.push(message);
+
+      await subscriber.subscribe("events", handler);
+      await publisher.publish("events", "one");
+      await settle();
+      await subscriber.unsubscribe("events", handler);
+      await publisher.publish("events", "two");
+      await settle();
+
+      expect(received).toEqual(["one"]);
+      await Promise.all([publisher.close(), subscriber.close()]);
+    });
+
+    it("keeps in-memory caches of separate instances in step", async () => {
+      const config = { CACHE_STORE: "memory", CACHE_INVALIDATION: "redis", REDIS_URL: url } as const;
+      const pubSubs = [new RespPubSub(url), new RespPubSub(url)];
+      const first = new LRUCache<string>(10, 60, { invalidation: { pubSub: pubSubs[0], channel: "c" } });
+      const second = new LRUCache<string>(10, 60, { invalidation: { pubSub: pubSubs[1], channel: "c" } });
+      await settle();
+
+      second.set("a", "1");
+      first.remove("a");
+      await settle();
+
+      expect(second.get("a")).toBeNull();
+      expect(createCacheStoreFactory(config)("user", { capacity: 1, ttlSeconds: 1 })).toBeInstanceOf(LRUCache);
+      first.destroy();
+      second.destroy();
+      await Promise.all(pubSubs.map(pubSub => pubSub.close()));
+    });
+  });
+
+  it("stops other app instances serving a user after a write", async () => {
+    const repository = new FakeUserRepository();
+    const pubSub = new InMemoryPubSub();
+    const config = { CACHE_STORE: "memory", CACHE_INVALIDATION: "none", REDIS_URL: "" } as const;
+    const appA = createApp({ userRepository: repository, cacheStore: createCacheStoreFactory(config, pubSub) });
+    const appB = createApp({ userRepository: repository, cacheStore: createCacheStoreFactory(config, pubSub) });
+
+    await request(appB).get("/users/1").expect(200);
+    await request(appA).patch("/users/1").send({ name: "Johnny Doe" }).expect(200);
+    await settle();
+
+    const response = await request(appB).get("/users/1").expect(200);
+    expect(response.body.name).toBe("Johnny Doe");
+
+    const status = await request(appB).get("/users/cache-status").expect(200);
+    expect(status.body.cache.invalidationsReceived).toBeGreaterThan(0);
+  });
+});
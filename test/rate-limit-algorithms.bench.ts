@@ -0,0 +1,25 @@
+import { bench, describe } from "vitest";
+
+import type { RateLimitAlgorithmName } from "../src/middleware/rate-limit-algorithms.js";
+
+import { createRateLimitAlgorithm } from "../src/middleware/rate-limit-algorithms.js";
+
+// A heavy client near a generous limit: 1000 requests already in the window
+const limits = { windowMs: 60_000, maxRequests: 2000, burstWindowMs: 10_000, burstMaxRequests: 2000 };
+const names: RateLimitAlgorithmName[] = ["sliding-window", "fixed-window", "token-bucket", "gcra"];
+
+describe("consume() for a client with 1000 requests in the window", () => {
+  for (const name of names) {
+    const algorithm = createRateLimitAlgorithm(name, limits);
+    const now = 1_000_000_000_000;
+
+    let state: unknown;
+    for (let i = 0; i < 1000; i++) {
+      state = algorithm.consume(state, now + i).state;
+    }
+
+    bench(name, () => {
+      algorithm.consume(state, now + 1000);
+    });
+  }
+});
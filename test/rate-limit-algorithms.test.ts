@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import type { RateLimitAlgorithm, RateLimitAlgorithmName } from "../src/middleware/rate-limit-algorithms.js";
+
+import { createRateLimitAlgorithm } from "../src/middleware/rate-limit-algorithms.js";
+
+// 10 requests/minute, 5 per 10 seconds - the users router's limits
+const limits = { windowMs: 60_000, maxRequests: 10, burstWindowMs: 10_000, burstMaxRequests: 5 };
+
+// Send `count` requests at `now`, returning the final state and how many were allowed
+function send(algorithm: RateLimitAlgorithm, state: unknown, now: number, count: number) {
+  let allowed = 0;
+  for (let i = 0; i < count; i++) {
+    const step = algorithm.consume(state, now);
+    if (step.result.allowed) {
+      state = step.state;
+      allowed++;
+    }
+  }
+  return { state, allowed };
+}
+
+describe("rate limit algorithms", () => {
+  const names: RateLimitAlgorithmName[] = ["sliding-window", "fixed-window", "token-bucket", "gcra"];
+
+  describe.each(names)("%s", (name) => {
+    const algorithm = createRateLimitAlgorithm(name, limits);
+
+    it("allows a burst of burstMaxRequests, then denies with a retry time", () => {
+      const now = 1_000_000_000_000;
+      const { state, allowed } = send(algorithm, undefined, now, 5);
+      expect(allowed).toBe(5);
+
+      const denied = algorithm.consume(state, now);
+      expect(denied.result.allowed).toBe(false);
+      expect(denied.result.retryAfterMs).toBeGreaterThan(0);
+      expect(denied.result.reason).toMatch(/limit exceeded/);
+
+      const later = algorithm.consume(state, now + denied.result.retryAfterMs);
+      expect(later.result.allowed).toBe(true);
+    });
+
+    it("reports the remaining quota", () => {
+      const now = 1_000_000_000_000;
+      const first = algorithm.consume(undefined, now);
+      expect(first.result).toMatchObject({ allowed: true, limit: 10, burstLimit: 5, burstRemaining: 4 });
+      expect(algorithm.peek(first.state, now).burstRemaining).toBe(4);
+      expect(algorithm.peek(undefined, now).burstRemaining).toBe(5);
+    });
+
+    it("takes the cost of a request from the quota", () => {
+      const now = 1_000_000_000_000;
+      const first = algorithm.consume(undefined, now, 2);
+      const second = algorithm.consume(first.state, now, 2);
+      expect(second.result).toMatchObject({ allowed: true, burstRemaining: 1 });
+
+      // One unit left: too little for another batch, enough for a single request
+      const denied = algorithm.consume(second.state, now, 2);
+      expect(denied.result.allowed).toBe(false);
+      expect(denied.result.retryAfterMs).toBeGreaterThan(0);
+      expect(algorithm.consume(second.state, now, 1).result.allowed).toBe(true);
+      expect(algorithm.consume(second.state, now + denied.result.retryAfterMs, 2).result.allowed).toBe(true);
+    });
+
+    it("lets the state expire once it no longer matters", () => {
+      const now = 1_000_000_000_000;
+      const { state } = send(algorithm, undefined, now, 1);
+      expect(algorithm.ttlMs(state, now)).toBeGreaterThan(0);
+      expect(algorithm.ttlMs(state, now + limits.windowMs)).toBeLessThanOrEqual(0);
+    });
+
+    it("keeps the sustained rate over a long run", () => {
+      // One request per second for 10 minutes
+      let state: unknown;
+      let allowed = 0;
+      const start = 1_000_000_000_000;
+      for (let second = 0; second < 600; second++) {
+        const step = send(algorithm, state, start + second * 1000, 1);
+        state = step.state;
+        allowed += step.allowed;
+      }
+
+      // 10/minute plus at most one extra burst
+      expect(allowed).toBeGreaterThanOrEqual(100);
+      expect(allowed).toBeLessThanOrEqual(110);
+    });
+  });
+
+  it("keeps state size constant for the O(1) algorithms", () => {
+    const heavy = { windowMs: 60_000, maxRequests: 10_000, burstWindowMs: 10_000, burstMaxRequests: 10_000 };
+    const sizes = Object.fromEntries(names.map((name) => {
+      const { state } = send(createRateLimitAlgorithm(name, heavy), undefined, 1_000_000_000_000, 1000);
+      return [name, JSON.stringify(state).length];
+    }));
+
+    expect(sizes["sliding-window"]).toBeGreaterThan(10_000);
+    expect(sizes["fixed-window"]).toBeLessThan(200);
+    expect(sizes["token-bucket"]).toBeLessThan(200);
+    expect(sizes.gcra).toBeLessThan(200);
+  });
+});
@@ -0,0 +1,60 @@
+import net from "node:net";
+import { describe, expect, it } from "vitest";
+
+import type { KeyRequest } from "../src/middleware/rate-limit-keys.js";
+
+import { apiKeyClientId, byApiKey, byHeader, byIp, byUserId, combine, firstOf, ipClientId } from "../src/middleware/rate-limit-keys.js";
+
+// Just enough of a request for the key generators
+function fakeRequest(ip: string, headers: Record<string, string> = {}): KeyRequest {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  function get(name: "set-cookie"): string[] | undefined;
+  function get(name: string): string | undefined;
+  function get(name: string): string | string[] | undefined {
+    return lower[name.toLowerCase()];
+  }
+  return { ip, socket: new net.Socket(), get };
+}
+
+describe("rate limit keys", () => {
+  describe("ipClientId", () => {
+    it("keeps IPv4 addresses and unwraps IPv4-mapped ones", () => {
+      expect(ipClientId("203.0.113.7")).toBe("203.0.113.7");
+      expect(ipClientId("::ffff:203.0.113.7")).toBe("203.0.113.7");
+    });
+
+    it("groups IPv6 addresses by subnet", () => {
+      expect(ipClientId("2001:db8:1:2:3:4:5:6")).toBe("2001:db8:1:2::/64");
+      expect(ipClientId("2001:db8:1:2::ffff")).toBe("2001:db8:1:2::/64");
+      expect(ipClientId("2001:db8::1")).toBe("2001:db8:0:0::/64");
+      expect(ipClientId("2001:db8:1:2ff::1", 56)).toBe("2001:db8:1:200::/56");
+      expect(ipClientId("2001:db8::1", 128)).toBe("2001:db8:0:0:0:0:0:1");
+    });
+  });
+
+  it("never uses the API key itself as the store key", () => {
+    expect(apiKeyClientId("secret")).toMatch(/^key:[0-9a-f]{16}$/);
+    expect(apiKeyClientId("secret")).not.toContain("secret");
+  });
+
+  it("names clients by API key, user ID or header", () => {
+    const req = fakeRequest("10.0.0.1", { "X-API-Key": "abc", "X-User-Id": "42", "X-Tenant": "acme" });
+
+    expect(byIp()(req)).toBe("10.0.0.1");
+    expect(byApiKey()(req)).toBe(apiKeyClientId("abc"));
+    expect(byApiKey("X-API-Key", ["other"])(req)).toBeUndefined();
+    expect(byUserId()(req)).toBe("user:42");
+    expect(byHeader("X-Tenant")(req)).toBe("header:x-tenant:acme");
+    expect(byHeader("X-Missing")(req)).toBeUndefined();
+  });
+
+  it("composes key generators", () => {
+    const anonymous = fakeRequest("10.0.0.1");
+    const user = fakeRequest("10.0.0.1", { "X-User-Id": "42" });
+
+    expect(firstOf(byUserId(), byIp())(anonymous)).toBe("10.0.0.1");
+    expect(firstOf(byUserId(), byIp())(user)).toBe("user:42");
+    expect(combine(byUserId(), byIp())(user)).toBe("user:42|10.0.0.1");
+    expect(combine(byUserId(), byIp())(anonymous)).toBeUndefined();
+  });
+});
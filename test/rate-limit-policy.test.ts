@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+
+import { parseApiKeys, PolicyRateLimiter } from "../src/middleware/rate-limit-policy.js";
+
+const limits = { windowMs: 60_000, maxRequests: 10, burstWindowMs: 10_000, burstMaxRequests: 5 };
+
+describe("rate limit policy", () => {
+  it("parses API keys from RATE_LIMIT_API_KEYS", () => {
+    expect(parseApiKeys("")).toEqual({});
+    expect(parseApiKeys("abc:standard, x:y:premium ,broken")).toEqual({ "abc": "standard", "x:y": "premium" });
+  });
+
+  it("rejects policies it could not apply", () => {
+    expect(() => new PolicyRateLimiter({ tiers: { standard: limits }, rules: [], apiKeys: {}, apiKeyHeader: "X-API-Key", ipv6Subnet: 64 }))
+      .toThrow(/anonymous/);
+    expect(() => new PolicyRateLimiter({ tiers: { anonymous: limits }, rules: [], apiKeys: { abc: "gold" }, apiKeyHeader: "X-API-Key", ipv6Subnet: 64 }))
+      .toThrow(/gold/);
+  });
+});
@@ -0,0 +1,184 @@
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createApp } from "../src/app.js";
+import { MemoryRateLimitStore } from "../src/middleware/memory-rate-limit-store.js";
+import { createRateLimitAlgorithm } from "../src/middleware/rate-limit-algorithms.js";
+import { createRateLimitStore } from "../src/middleware/rate-limit-store.js";
+import { RedisRateLimitStore } from "../src/middleware/redis-rate-limit-store.js";
+import { RespClient } from "../src/redis/resp-client.js";
+import { RespServer } from "./helpers/resp-server.js";
+
+const limits = { windowMs: 60_000, maxRequests: 10, burstWindowMs: 10_000, burstMaxRequests: 5 };
+
+describe("MemoryRateLimitStore", () => {
+  it("tracks, peeks at and resets keys", () => {
+    const store = new MemoryRateLimitStore();
+    const algorithm = createRateLimitAlgorithm("gcra", limits);
+    const now = Date.now();
+
+    expect(store.consume("a", algorithm, now).burstRemaining).toBe(4);
+    expect(store.peek("a", algorithm, now).burstRemaining).toBe(4);
+    expect(store.size()).toBe(1);
+    expect(store.keys()).toEqual(["a"]);
+
+    store.reset("a");
+    expect(store.peek("a", algorithm, now).burstRemaining).toBe(5);
+    store.destroy();
+  });
+
+  it("keeps overrides until they expire", () => {
+    const store = new MemoryRateLimitStore();
+    const now = Date.now();
+
+    store.setOverride({ client: "a", action: "ban", expiresAt: now + 60_000 });
+    store.setOverride({ client: "b", action: "allow", expiresAt: now - 1 });
+    expect(store.getOverride("a")).toMatchObject({ action: "ban" });
+    expect(store.getOverride("b")).toBeNull();
+    expect(store.listOverrides()).toHaveLength(1);
+    expect(store.keys()).toEqual([]);
+
+    expect(store.removeOverride("a")).toBe(true);
+    expect(store.removeOverride("a")).toBe(false);
+    store.destroy();
+  });
+
+  it("forgets state once it stops mattering", () => {
+    const store = new MemoryRateLimitStore();
+    const algorithm = createRateLimitAlgorithm("fixed-window", limits);
+    const now = Date.now();
+
+    store.consume("a", algorithm, now);
+    expect(store.peek("a", algorithm, now + limits.windowMs).remaining).toBe(10);
+    store.destroy();
+  });
+});
+
+describe("RedisRateLimitStore", () => {
+  let server: RespServer;
+  let url: string;
+  const stores: RedisRateLimitStore[] = [];
+
+  function createStore(poolSize?: number): RedisRateLimitStore {
+    const store = new RedisRateLimitStore(url, { poolSize });
+    stores.push(store);
+    return store;
+  }
+
+  beforeEach(async () => {
+    server = new RespServer();
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map(store => store.destroy()));
+    await server.stop();
+  });
+
+  it("shares limits between instances", async () => {
+    const algorithm = createRateLimitAlgorithm("sliding-window", limits);
+    const first = createStore();
+    const second = createStore();
+    const now = Date.now();
+
+    for (let i = 0; i < 5; i++) {
+      const store = i % 2 === 0 ? first : second;
+      expect((await store.consume("client", algorithm, now)).allowed).toBe(true);
+    }
+
+    const denied = await second.consume("client", algorithm, now);
+    expect(denied.allowed).toBe(false);
+    expect(denied.reason).toMatch(/Burst limit/);
+    expect(await first.size()).toBe(1);
+    expect(await second.keys()).toEqual(["client"]);
+  });
+
+  it("never over-admits under concurrent updates", async () => {
+    const algorithm = createRateLimitAlgorithm("token-bucket", limits);
+    const first = createStore(4);
+    const second = createStore(4);
+    const now = Date.now();
+
+    const results = await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      (i % 2 === 0 ? first : second).consume("client", algorithm, now)));
+
+    expect(results.filter(result => result.allowed)).toHaveLength(5);
+    // Conflicting transactions were retried rather than lost
+    expect(server.commands.EXEC).toBeGreaterThan(5);
+  });
+
+  it("expires keys with the algorithm's state lifetime and resets them", async () => {
+    const algorithm = createRateLimitAlgorithm("gcra", limits);
+    const store = createStore();
+    const inspector = new RespClient(url);
+
+    await store.consume("client", algorithm, Date.now());
+    // One request under GCRA matters for one emission interval (6 seconds)
+    const ttl = await inspector.command("PTTL", "ratelimit:client");
+    await inspector.close();
+    expect(ttl).toBeGreaterThan(5_000);
+    expect(ttl).toBeLessThanOrEqual(6_000);
+
+    await store.reset("other");
+    expect(server.size()).toBe(1);
+    await store.reset("client");
+    expect(server.size()).toBe(0);
+  });
+
+  it("is selected by RATE_LIMIT_STORE", () => {
+    const redis = createRateLimitStore({ RATE_LIMIT_STORE: "redis", REDIS_URL: url });
+    const memory = createRateLimitStore({ RATE_LIMIT_STORE: "memory", REDIS_URL: url });
+
+    expect(redis).toBeInstanceOf(RedisRateLimitStore);
+    expect(memory).toBeInstanceOf(MemoryRateLimitStore);
+    stores.push(redis as RedisRateLimitStore);
+    (memory as MemoryRateLimitStore).destroy();
+  });
+
+  it("applies 10 req/min across app instances", async () => {
+    const appA = createApp({ rateLimit: { store: createStore() } });
+    const appB = createApp({ rateLimit: { store: createStore() } });
+
+    for (let i = 0; i < 5; i++) {
+      await request(i % 2 === 0 ? appA : appB).get("/users/1").expect(200);
+    }
+    await request(appA).get("/users/1").expect(429);
+    await request(appB).get("/users/1").expect(429);
+  });
+
+  it("applies overrides on every instance", async () => {
+    const adminToken = "test-admin-token";
+    const auth = { Authorization: `Bearer ${adminToken}` };
+    const appA = createApp({ adminToken, rateLimit: { store: createStore() } });
+    const appB = createApp({ adminToken, rateLimit: { store: createStore() } });
+
+    await request(appA)
+      .post("/admin/rate-limits/overrides")
+      .set(auth)
+      .send({ ip: "127.0.0.1", action: "ban", ttlSeconds: 60 })
+      .expect(201);
+
+    await request(appB).get("/users/1").expect(429);
+    const list = await request(appB).get("/admin/rate-limits/overrides").set(auth).expect(200);
+    expect(list.body.overrides).toMatchObject([{ client: "127.0.0.1", action: "ban" }]);
+    const overview = await request(appB).get("/admin/rate-limits").set(auth).expect(200);
+    expect(overview.body).toEqual({ trackedKeys: 0, overrides: 1 });
+
+    await request(appB).delete("/admin/rate-limits/overrides/127.0.0.1").set(auth).expect(204);
+    await request(appA).get("/users/1").expect(200);
+  });
+
+  it("lets requests through when the store is unreachable", async () => {
+    await server.stop();
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const offline = createApp({ rateLimit: { store: new RedisRateLimitStore(url) } });
+    const response = await request(offline).get("/users/1").expect(200);
+
+    expect(response.headers["x-ratelimit-remaining"]).toBeUndefined();
+    expect(errors).toHaveBeenCalled();
+    errors.mockRestore();
+    server = new RespServer();
+    url = await server.start();
+  });
+});
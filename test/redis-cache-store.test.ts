@@ -0,0 +1,176 @@
+import net from "node:net";
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createApp } from "../src/app.js";
+import { createCacheStoreFactory } from "../src/cache/index.js";
+import { LRUCache } from "../src/cache/lru-cache.js";
+import { RedisCacheStore } from "../src/cache/redis-cache-store.js";
+import { Lifecycle } from "../src/lifecycle.js";
+import { RespClient } from "../src/redis/resp-client.js";
+import { RespError } from "../src/redis/resp.js";
+import { FakeUserRepository } from "./helpers/fake-user-repository.js";
+import { RespServer } from "./helpers/resp-server.js";
+
+describe("RedisCacheStore", () => {
+  let server: RespServer;
+  let url: string;
+  let clients: RespClient[];
+
+  function connect(): RespClient {
+    const client = new RespClient(url);
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    server = new RespServer();
+    url = await server.start();
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await server.stop();
+  });
+
+  it("talks RESP and surfaces error replies", async () => {
+    const client = connect();
+
+    expect(await client.command("PING")).toBe("PONG");
+    expect(await client.command("SET", "greeting", "héllo")).toBe("OK");
+    expect(await client.command("GET", "greeting")).toBe("héllo");
+    await expect(client.command("NOPE")).rejects.toBeInstanceOf(RespError);
+    expect(await client.command("GET", "missing")).toBeNull();
+  });
+
+  it("drops the connection on a malformed reply", async () => {
+    // Answers every command with something that is not RESP
+    const garbage = net.createServer(socket => socket.on("data", () => socket.write("?garbage\r\n")));
+    await new Promise<void>(resolve => garbage.listen(0, resolve));
+    const { port } = garbage.address() as net.AddressInfo;
+    const client = new RespClient(`redis://localhost:${port}`);
+
+    try {
+      await expect(client.command("PING")).rejects.toThrow(/Protocol error/);
+      await expect(client.command("PING")).rejects.toThrow(/Protocol error/); // Reconnected
+    }
+    finally {
+      await client.close();
+      await new Promise(resolve => garbage.close(resolve));
+    }
+  });
+
+  it("shares entries and tombstones between instances", async () => {
+    const first = new RedisCacheStore<{ name: string }>(connect(), { prefix: "cache:user:" });
+    const second = new RedisCacheStore<{ name: string }>(connect(), { prefix: "cache:user:" });
+
+    await first.set("user:1", { name: "John" });
+    await first.setNegative("user:2", 10);
+
+    expect(await second.get("user:1")).toEqual({ name: "John" });
+    expect(await second.lookup("user:2")).toEqual({ status: "negative" });
+    expect(await second.lookup("user:3")).toEqual({ status: "miss" });
+  });
+
+  it("clears only its own prefix", async () => {
+    const users = new RedisCacheStore<string>(connect(), { prefix: "cache:user:" });
+    const lists = new RedisCacheStore<string>(connect(), { prefix: "cache:user-list:" });
+
+    await users.set("a", "1");
+    await lists.set("a", "2");
+    await users.clear();
+
+    expect(await users.get("a")).toBeNull();
+    expect(await lists.get("a")).toBe("2");
+  });
+
+  it("expires entries on the server after the TTL plus stale window", async () => {
+    const store = new RedisCacheStore<string>(connect(), { prefix: "c:", staleIfErrorSeconds: 5 });
+
+    await store.set("key", "value", { ttlSeconds: 10 });
+    await store.setNegative("gone", 10);
+
+    const client = connect();
+    expect(await client.command("PTTL", "c:key")).toBeGreaterThan(14_000);
+    expect(await client.command("PTTL", "c:gone")).toBeLessThanOrEqual(10_000);
+  });
+
+  it("serves a stale entry while refreshing it in the background", async () => {
+    const store = new RedisCacheStore<string>(connect(), { prefix: "c:", staleWhileRevalidateSeconds: 30 });
+    await store.set("key", "old", { ttlSeconds: 0.01 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    let release!: (value: string) => void;
+    const loader = () => new Promise<string>((resolve) => {
+      release = resolve;
+    });
+
+    expect(await store.fetch("key", loader)).toBe("old");
+    release("new");
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(await store.get("key")).toBe("new");
+    expect(await store.getStats()).toMatchObject({ staleHits: 1, backgroundRefreshes: 1 });
+  });
+
+  it("falls back to a stale entry when the loader fails", async () => {
+    const store = new RedisCacheStore<string>(connect(), { prefix: "c:", staleIfErrorSeconds: 30 });
+    await store.set("key", "old", { ttlSeconds: 0.01 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(await store.fetch("key", async () => {
+      throw new Error("down");
+    })).toBe("old");
+    expect((await store.getStats()).staleIfErrorHits).toBe(1);
+  });
+
+  it("reports stats in the same shape as LRUCache", async () => {
+    const store = new RedisCacheStore<string>(connect(), { prefix: "c:", capacity: 10 });
+    await store.set("a", "1");
+    await store.setNegative("b", 10);
+    await store.get("a");
+    await store.get("missing");
+
+    const memory = new LRUCache<string>(10, 60);
+    const stats = await store.getStats();
+    memory.destroy();
+
+    expect(Object.keys(stats).sort()).toEqual(Object.keys(memory.getStats()).sort());
+    expect(stats).toMatchObject({ hits: 1, misses: 1, size: 2, tombstones: 1, capacity: 10 });
+    expect(stats.memoryUsage).toBeGreaterThan(0);
+  });
+
+  it("is selected by CACHE_STORE", () => {
+    const redis = createCacheStoreFactory({ CACHE_STORE: "redis", CACHE_INVALIDATION: "none", REDIS_URL: url });
+    const memory = createCacheStoreFactory({ CACHE_STORE: "memory", CACHE_INVALIDATION: "none", REDIS_URL: url });
+
+    expect(redis("user", { capacity: 1, ttlSeconds: 1 })).toBeInstanceOf(RedisCacheStore);
+    expect(memory("user", { capacity: 1, ttlSeconds: 1 })).toBeInstanceOf(LRUCache);
+  });
+
+  it("closes its connection on shutdown", async () => {
+    const lifecycle = new Lifecycle();
+    const factory = createCacheStoreFactory({ CACHE_STORE: "redis", CACHE_INVALIDATION: "none", REDIS_URL: url }, null, lifecycle);
+    const store = factory<string>("user", { capacity: 1, ttlSeconds: 1 });
+    await store.set("user:1", "John");
+
+    expect(await lifecycle.shutdown()).toEqual([]);
+    await expect(store.get("user:1")).rejects.toThrow("Client is closed");
+  });
+
+  it("lets app instances share cached users and cache clears", async () => {
+    const first = new FakeUserRepository();
+    const second = new FakeUserRepository();
+    const appA = createApp({ userRepository: first, cacheStore: createCacheStoreFactory({ CACHE_STORE: "redis", CACHE_INVALIDATION: "none", REDIS_URL: url }) });
+    const appB = createApp({ userRepository: second, cacheStore: createCacheStoreFactory({ CACHE_STORE: "redis", CACHE_INVALIDATION: "none", REDIS_URL: url }) });
+
+    await request(appA).get("/users/1").expect(200);
+    await request(appB).get("/users/1").expect(200);
+    expect(second.calls.findById).toBe(0);
+
+    await request(appB).delete("/users/cache").expect(200);
+    await request(appA).get("/users/1").expect(200);
+    expect(first.calls.findById).toBe(2);
+  });
+});
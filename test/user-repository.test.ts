@@ -0,0 +1,71 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { createUserRepository } from "../src/repositories/index.js";
+import { JsonFileUserRepository } from "../src/repositories/json-file-user-repository.js";
+
+describe("JsonFileUserRepository", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "users-"));
+    filePath = path.join(dir, "users.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("seeds a missing file with the default users", async () => {
+    const repository = new JsonFileUserRepository(filePath);
+
+    expect(await repository.findById(1)).toEqual({
+      id: 1,
+      name: "John Doe",
+      email: "john@example.com",
+    });
+
+    const contents = JSON.parse(await fs.readFile(filePath, "utf8"));
+    expect(contents.users).toHaveLength(3);
+  });
+
+  it("persists writes across instances", async () => {
+    const repository = new JsonFileUserRepository(filePath);
+    const created = await repository.create({ name: "Bob Brown", email: "bob@example.com" });
+    await repository.update(1, { name: "John Updated" });
+    await repository.delete(2);
+
+    const reopened = new JsonFileUserRepository(filePath);
+    expect(await reopened.findById(created.id)).toEqual(created);
+    expect((await reopened.findById(1))?.name).toBe("John Updated");
+    expect(await reopened.findById(2)).toBeNull();
+  });
+
+  it("serializes concurrent writes", async () => {
+    const repository = new JsonFileUserRepository(filePath);
+    const created = await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        repository.create({ name: `User ${i}`, email: `user${i}@example.com` })),
+    );
+
+    expect(new Set(created.map(user => user.id)).size).toBe(5);
+
+    const reopened = new JsonFileUserRepository(filePath);
+    for (const user of created) {
+      expect(await reopened.findById(user.id)).toEqual(user);
+    }
+  });
+});
+
+describe("createUserRepository", () => {
+  it("selects the repository from configuration", () => {
+    expect(createUserRepository({ USER_REPOSITORY: "file", USER_DATA_FILE: "users.json" }))
+      .toBeInstanceOf(JsonFileUserRepository);
+    expect(createUserRepository({ USER_REPOSITORY: "memory", USER_DATA_FILE: "users.json" }))
+      .not
+      .toBeInstanceOf(JsonFileUserRepository);
+  });
+});